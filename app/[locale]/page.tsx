@@ -7,7 +7,8 @@ import { LanguageSwitcher } from "@/components/ui/language-switcher";
 import { ThemeSwitcher } from "@/components/ui/theme-switcher";
 import { CodeEditor } from "@/components/ui/code-editor";
 import { OutputPanel } from "@/components/ui/output-panel";
-import { runPashtoPlusPlus } from "@/lib/interpreter-client";
+import { Diagnostic, DiagnosticCode } from "@/lib/interpreter/diagnostics";
+import type { WorkerRequest, WorkerResponse } from "@/lib/worker-messages";
 
 // Example code snippets
 const EXAMPLES = {
@@ -34,6 +35,16 @@ olika(factorial(5))
 `
 };
 
+// Shown when the Stop button ends a program
+const STOPPED: Diagnostic = {
+  code: DiagnosticCode.Aborted,
+  severity: "error",
+  phase: "runtime",
+  message: "Program stopped: it was cancelled",
+  params: {},
+  span: null,
+};
+
 export default function Home() {
   const t = useTranslations();
   const locale = useLocale();
@@ -43,46 +54,126 @@ export default function Home() {
   const [inputValue, setInputValue] = useState("");
   const [waitingForInput, setWaitingForInput] = useState(false);
   const [inputPrompt, setInputPrompt] = useState("");
+  // Seed for the random functions; the same seed replays a run exactly, and an empty one gives new numbers each run
+  const [seed, setSeed] = useState("");
   const inputRef = useRef<HTMLInputElement>(null);
+  // Programs run in a Web Worker, so long computations don't freeze the page
+  const workerRef = useRef<Worker | null>(null);
+  // Lines that arrived since the last repaint; they are added to the output once per animation frame
+  const pendingOutputRef = useRef("");
+  const outputFrameRef = useRef<number | null>(null);
+
+  // Show a diagnostic in the current language, e.g. "Syntax error E201 (Line 3, column 5): ..." or "Warning E102 ..."
+  const formatDiagnostic = (diagnostic: Diagnostic) => {
+    const start = diagnostic.span?.start;
+    const location = start ? ` (${t("diagnostics.location", { line: start.line, column: start.column })})` : "";
+    const message = t(`diagnostics.${diagnostic.code}`, diagnostic.params);
+    const label = diagnostic.severity === "warning" ? t("diagnostics.warning") : t(`diagnostics.phase.${diagnostic.phase}`);
+    return `${label} ${diagnostic.code}${location}: ${message}`;
+  };
+
+  // Add the lines queued since the last repaint to the output
+  const flushOutput = () => {
+    if (outputFrameRef.current !== null) {
+      cancelAnimationFrame(outputFrameRef.current);
+      outputFrameRef.current = null;
+    }
+    const text = pendingOutputRef.current;
+    pendingOutputRef.current = "";
+    if (text !== "") {
+      setOutput(prev => prev + text);
+    }
+  };
+
+  // Queue printed text so a program printing in a loop updates the page once per frame, not once per line
+  const queueOutput = (text: string) => {
+    pendingOutputRef.current += text;
+    if (outputFrameRef.current === null) {
+      outputFrameRef.current = requestAnimationFrame(flushOutput);
+    }
+  };
+
+  // Add text after everything printed so far
+  const appendOutput = (text: string) => {
+    flushOutput();
+    setOutput(prev => prev + text);
+  };
+
+  const sendToWorker = (request: WorkerRequest) => {
+    workerRef.current?.postMessage(request);
+  };
+
+  // Terminate the worker, which ends the program wherever it is
+  const endRun = () => {
+    workerRef.current?.terminate();
+    flushOutput();
+    workerRef.current = null;
+    setIsRunning(false);
+    setWaitingForInput(false);
+  };
 
   // Handle code execution
-  const runCode = async () => {
+  const runCode = () => {
+    endRun();
     setIsRunning(true);
     setOutput("");
-    setWaitingForInput(false);
 
-    try {
-      // Create an input callback for the interpreter
-      const inputCallback = () => {
-        return new Promise<string>((resolve) => {
+    const worker = new Worker(new URL("../../lib/interpreter-worker.ts", import.meta.url));
+    workerRef.current = worker;
+
+    // Output arrives line by line as the program prints it, so prompts appear in order
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case "output":
+          queueOutput(message.text);
+          break;
+        case "input":
+          flushOutput();
+          setInputPrompt(message.prompt);
           setWaitingForInput(true);
-          // Store the resolve function to be called when input is submitted
-          (window as any).__resolveInput = resolve;
-        });
-      };
-
-      const result = await runPashtoPlusPlus(code, inputCallback);
-      
-      if (result.error) {
-        setOutput(prev => prev + "\n" + result.error);
-      } else {
-        setOutput(prev => prev + "\n" + result.output);
+          break;
+        case "done":
+          if (message.diagnostics.length > 0) {
+            appendOutput(message.diagnostics.map(formatDiagnostic).join("\n"));
+          }
+          endRun();
+          break;
+        case "error":
+          appendOutput("\n" + message.message);
+          endRun();
+          break;
       }
-    } catch (error) {
-      setOutput(prev => prev + "\n" + (error instanceof Error ? error.message : String(error)));
-    } finally {
-      setIsRunning(false);
-      setWaitingForInput(false);
-    }
+    };
+
+    worker.onerror = (event) => {
+      appendOutput("\n" + event.message);
+      endRun();
+    };
+
+    sendToWorker({
+      type: "run",
+      code,
+      options: {
+        numerals: locale === "ps" ? "pashto" : "latin",
+        seed: seed.trim() === "" ? undefined : Number(seed),
+        maxCallDepth: 1000,
+      },
+    });
+  };
+
+  // Handle the Stop button
+  const stopCode = () => {
+    endRun();
+    appendOutput(formatDiagnostic(STOPPED));
   };
 
   // Handle input submission
   const handleInputSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (waitingForInput && (window as any).__resolveInput) {
-      const resolveInput = (window as any).__resolveInput;
-      resolveInput(inputValue);
-      setOutput(prev => prev + inputValue + "\n");
+    if (waitingForInput) {
+      sendToWorker({ type: "input", value: inputValue });
+      appendOutput(inputValue + "\n");
       setInputValue("");
       setWaitingForInput(false);
     }
@@ -100,6 +191,11 @@ export default function Home() {
     }
   }, [waitingForInput]);
 
+  // Stop a running program when leaving the page
+  useEffect(() => {
+    return () => workerRef.current?.terminate();
+  }, []);
+
   return (
     <div className="min-h-screen flex flex-col">
       {/* Header */}
@@ -136,13 +232,32 @@ export default function Home() {
                 {t("examples.factorial")}
               </button>
             </div>
-            <button 
-              onClick={runCode} 
-              disabled={isRunning || waitingForInput}
-              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {t("editor.run")}
-            </button>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                value={seed}
+                onChange={(e) => setSeed(e.target.value)}
+                disabled={isRunning}
+                className="w-24 px-2 py-1 text-sm border rounded dark:bg-slate-800 dark:border-slate-700"
+                placeholder={t("editor.seed")}
+                title={t("editor.seed")}
+              />
+              {isRunning ? (
+                <button 
+                  onClick={stopCode} 
+                  className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
+                >
+                  {t("editor.stop")}
+                </button>
+              ) : (
+                <button 
+                  onClick={runCode} 
+                  className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+                >
+                  {t("editor.run")}
+                </button>
+              )}
+            </div>
           </div>
           
           <CodeEditor 
@@ -3,28 +3,25 @@
  * This file provides a browser-compatible version of the interpreter
  */
 
-import { Lexer } from './interpreter/lexer';
-import { Parser } from './interpreter/parser';
-import { Interpreter } from './interpreter/interpreter';
+import { Interpreter, InterpreterOptions, InputCallback, RunResult, failedResult, parseSource, syntaxErrorResult, withWarnings } from './interpreter/interpreter';
+import { hasErrors } from './interpreter/diagnostics';
 
 // Main entry point for running Pashto++ code in the browser
 export async function runPashtoPlusPlus(
   code: string,
-  inputCallback: () => Promise<string>
-): Promise<{ output: string, error?: string }> {
+  inputCallback: InputCallback,
+  options: InterpreterOptions = {}
+): Promise<RunResult> {
   try {
-    const lexer = new Lexer(code);
-    const tokens = lexer.tokenize();
-
-    const parser = new Parser(tokens);
-    const program = parser.parse();
+    // Lexing and syntax errors are all reported together, and the program is not run; with only warnings it runs
+    const { program, diagnostics } = parseSource(code);
+    if (hasErrors(diagnostics)) {
+      return syntaxErrorResult(diagnostics);
+    }
 
-    const interpreter = new Interpreter(inputCallback);
-    return await interpreter.interpret(program);
+    const interpreter = new Interpreter(inputCallback, options);
+    return withWarnings(await interpreter.interpret(program), diagnostics);
   } catch (error) {
-    if (error instanceof Error) {
-      return { output: '', error: error.message };
-    }
-    return { output: '', error: String(error) };
+    return failedResult('', error);
   }
 }
@@ -0,0 +1,45 @@
+/**
+ * Web Worker that runs Pashto++ programs off the main thread
+ * The page stops a program by terminating the worker
+ */
+
+import { runPashtoPlusPlus } from './interpreter-client';
+import type { WorkerRequest, WorkerResponse } from './worker-messages';
+
+let resolveInput: ((value: string) => void) | null = null;
+
+function send(message: WorkerResponse) {
+  self.postMessage(message);
+}
+
+// Send each line as soon as it is printed, so it reaches the page even if the program never finishes
+// (the page batches what arrives between two repaints)
+function onOutput(line: string) {
+  send({ type: 'output', text: line + '\n' });
+}
+
+// Ask the page for input; the prompt has already been printed and sent
+function inputCallback(prompt: string) {
+  return new Promise<string>((resolve) => {
+    resolveInput = resolve;
+    send({ type: 'input', prompt });
+  });
+}
+
+self.addEventListener('message', async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'input') {
+    const resolve = resolveInput;
+    resolveInput = null;
+    resolve?.(request.value);
+    return;
+  }
+
+  try {
+    const result = await runPashtoPlusPlus(request.code, inputCallback, { ...request.options, onOutput });
+    send({ type: 'done', diagnostics: result.diagnostics });
+  } catch (error) {
+    send({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+});
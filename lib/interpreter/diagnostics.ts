@@ -0,0 +1,169 @@
+/**
+ * Diagnostics for Pashto++
+ * Errors from every phase are described by a stable code, so the UI can show them
+ * in the reader's language from the `diagnostics` section of messages/en.json and messages/ps.json
+ */
+
+// Stable diagnostic codes: E1xx lexing, E2xx parsing, E3xx running, E4xx built-in functions
+export enum DiagnosticCode {
+  // Lexer
+  UnterminatedString = 'E101',
+  UnknownEscape = 'E102', // params: escape
+  UnterminatedTemplate = 'E103',
+  UnexpectedCharacter = 'E104', // params: char
+
+  // Parser
+  ExpectedToken = 'E201', // params: expected, found, foundType
+  ExpectedName = 'E202', // params: found, foundType
+  ExpectedString = 'E203', // params: found, foundType
+  UnexpectedToken = 'E204', // params: found, foundType
+  ExportNotTopLevel = 'E205',
+  InvalidExport = 'E206',
+  ConstantNeedsValue = 'E207', // params: name
+  DuplicateDefaultCase = 'E208',
+  MissingCatchOrFinally = 'E209',
+  LoopControlOutsideLoop = 'E210', // params: keyword
+  InvalidAssignmentTarget = 'E211',
+  InvalidUpdateTarget = 'E212', // params: operator
+  ExpectedMapKey = 'E213', // params: found, foundType
+  ReturnOutsideFunction = 'E214', // params: keyword
+
+  // Interpreter: one general code per error kind (params: detail), for errors without their own code...
+  RuntimeError = 'E300',
+  TypeError = 'E301',
+  NameError = 'E302',
+  IndexError = 'E303',
+  KeyError = 'E304',
+  ImportError = 'E305',
+  ThrownError = 'E306',
+  ZeroDivisionError = 'E307',
+  // ...and specific codes for the most common ones
+  DivisionByZero = 'E310',
+  ModuloByZero = 'E311',
+  UndefinedName = 'E312', // params: name
+  AlreadyDeclared = 'E313', // params: name
+  ConstantAssignment = 'E314', // params: name
+  UndeclaredName = 'E315', // params: name
+  NotAFunction = 'E316', // params: value
+  IndexOutOfBounds = 'E317', // params: index, length
+  KeyNotFound = 'E318', // params: key
+  CircularImport = 'E319', // params: cycle
+  ThisOutsideMethod = 'E320',
+  OperandTypes = 'E321', // params: operator, left, right
+  RangeBounds = 'E322', // params: from, to
+  NotIterable = 'E323', // params: type
+  NegateType = 'E324', // params: type
+  ConstructorArguments = 'E325', // params: name
+  ImportsUnavailable = 'E326', // params: module
+  ModuleNotFound = 'E327', // params: module
+  ModuleSyntaxError = 'E328', // params: module, line, column
+  NotExported = 'E329', // params: module, name
+
+  // Program stopped by a limit from the interpreter options, or cancelled
+  StepLimit = 'E330', // params: limit
+  CallDepthLimit = 'E331', // params: limit
+  Timeout = 'E332', // params: milliseconds
+  Aborted = 'E333',
+
+  // Indexing and members
+  NotIndexable = 'E340', // params: type
+  IndexNotWhole = 'E341', // params: index
+  NotAssignable = 'E342', // params: type
+  UnknownMember = 'E343', // params: name, member
+  UnknownErrorField = 'E344', // params: field
+  KeyNotString = 'E345', // params: key
+  NoMembers = 'E346', // params: type, member
+
+  // Imported modules
+  ModuleFailed = 'E350', // params: module, line, code
+
+  // Built-in functions; `position` counts arguments from 1
+  ArgumentType = 'E401', // params: function, position, expected
+  ArgumentRange = 'E402', // params: function, position, min, max
+  ArgumentOrder = 'E403', // params: function, low, high
+  MissingArgument = 'E404', // params: function
+  EmptyArray = 'E405', // params: function
+  EmptySearch = 'E406', // params: function
+  ComparatorResult = 'E407', // params: function
+  NumberItems = 'E408', // params: function, value
+  SortTypes = 'E409', // params: left, right
+  MathDomain = 'E410', // params: expression
+  FormatValueMissing = 'E411', // params: index
+  NumberConversion = 'E412', // params: value
+  BooleanConversion = 'E413', // params: value
+  InvalidJson = 'E414', // params: line, column, found, foundType
+  JsonUnsupported = 'E415', // params: value
+  JsonCircular = 'E416',
+}
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+// The stage that reported the diagnostic
+export type DiagnosticPhase = 'lex' | 'parse' | 'runtime';
+
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+// `end` is exclusive; runtime diagnostics cover the first character of the expression or statement that failed
+export interface SourceSpan {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+export type DiagnosticParams = Record<string, string | number>;
+
+export interface Diagnostic {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  phase: DiagnosticPhase;
+  message: string; // English description, without the position
+  params: DiagnosticParams; // Values for the placeholders of the localized message
+  span: SourceSpan | null;
+}
+
+// Whether any of the diagnostics is an error; a program with only warnings still runs
+export function hasErrors(diagnostics: Diagnostic[]): boolean {
+  return diagnostics.some(diagnostic => diagnostic.severity === 'error');
+}
+
+// English text for a diagnostic, with its position
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  const start = diagnostic.span?.start;
+  return start ? `${diagnostic.message} at line ${start.line}, column ${start.column}` : diagnostic.message;
+}
+
+// A lexer or parser error that carries its diagnostic
+export class DiagnosticError extends Error {
+  diagnostic: Diagnostic;
+
+  constructor(diagnostic: Diagnostic) {
+    super(formatDiagnostic(diagnostic));
+    this.diagnostic = diagnostic;
+  }
+}
+
+// Build a diagnostic that starts at a line and column and spans `length` characters
+export function createDiagnostic(
+  phase: DiagnosticPhase,
+  code: DiagnosticCode,
+  message: string,
+  params: DiagnosticParams,
+  line: number,
+  column: number,
+  length: number = 1,
+  severity: DiagnosticSeverity = 'error'
+): Diagnostic {
+  return {
+    code,
+    severity,
+    phase,
+    message,
+    params,
+    span: {
+      start: { line, column },
+      end: { line, column: column + Math.max(length, 1) },
+    },
+  };
+}
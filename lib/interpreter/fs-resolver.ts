@@ -0,0 +1,29 @@
+/**
+ * File system module resolver for running Pashto++ in Node
+ * Kept out of index.ts so browser bundles never import 'fs'
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { ModuleResolver } from './modules';
+
+export class FileSystemModuleResolver implements ModuleResolver {
+  private rootDir: string;
+
+  constructor(rootDir: string = process.cwd()) {
+    this.rootDir = rootDir;
+  }
+
+  resolve(specifier: string, importer: string | null): string {
+    const baseDir = importer === null ? this.rootDir : path.dirname(importer);
+    return path.resolve(baseDir, specifier);
+  }
+
+  async load(id: string): Promise<string> {
+    try {
+      return await readFile(id, 'utf8');
+    } catch {
+      throw new Error(`Module '${id}' not found`);
+    }
+  }
+}
@@ -6,3 +6,5 @@
 export * from './lexer';
 export * from './parser';
 export * from './interpreter';
+export * from './modules';
+export * from './diagnostics';
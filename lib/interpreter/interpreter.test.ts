@@ -0,0 +1,916 @@
+import { describe, expect, it } from 'vitest';
+import { InterpreterOptions, parseSource, runPashtoPlusPlus } from './interpreter';
+import { MemoryModuleResolver } from './modules';
+
+// Run a program, answering each oghwara from `answers` in turn, and record
+// printed lines and input prompts in the order the program produced them
+async function run(code: string, answers: string[] = [], options: InterpreterOptions = {}) {
+  const events: string[] = [];
+  const result = await runPashtoPlusPlus(
+    code,
+    async (prompt) => {
+      events.push(`prompt: ${prompt}`);
+      return answers.shift() ?? '';
+    },
+    { ...options, onOutput: line => events.push(`output: ${line}`) }
+  );
+  return { ...result, events };
+}
+
+describe('Pashto script', () => {
+  it('runs a program written with Pashto keywords, names and digits', async () => {
+    const result = await run(`
+بدل شمېر = ۵
+که (شمېر + ۳ == ۸) {
+  چاپ("سم")
+} ګني {
+  چاپ("غلط")
+}
+`);
+    expect(result.diagnostics).toEqual([]);
+    expect(result.output).toBe('سم');
+  });
+
+  it('reads Arabic-Indic digits and the Arabic decimal separator', async () => {
+    const result = await run('olika(٤٢ + 1, ۱٫۵ * 2)');
+    expect(result.output).toBe('43 3');
+  });
+
+  it('prints numbers with Pashto digits in the Pashto locale', async () => {
+    const result = await run('olika(12.5, -30, [1, 2])\nolika("x" _ 7)', [], { numerals: 'pashto' });
+    expect(result.output).toBe('۱۲٫۵ -۳۰ [۱, ۲]\nx۷');
+  });
+});
+
+describe('recursion', () => {
+  it('computes a factorial recursively', async () => {
+    const result = await run(`
+opejana factorial(n) {
+  ko (n <= 1) {
+    raka 1
+  } geni {
+    raka n * factorial(n - 1)
+  }
+}
+olika(factorial(5))
+olika(factorial(10))
+`);
+    expect(result.diagnostics).toEqual([]);
+    expect(result.output).toBe('120\n3628800');
+  });
+
+  it('uses the value returned by each nested call', async () => {
+    const result = await run(`
+opejana fib(n) {
+  ko (n < 2) { raka n }
+  raka fib(n - 1) + fib(n - 2)
+}
+olika(fib(15))
+`);
+    expect(result.output).toBe('610');
+  });
+});
+
+describe('nested returns', () => {
+  it('returns from inside ko nested in a function', async () => {
+    const result = await run(`
+opejana sign(n) {
+  ko (n > 0) {
+    ko (n > 100) {
+      raka "loy"
+    }
+    raka "mosbat"
+  } geni ko (n < 0) {
+    raka "manfi"
+  }
+  raka "sifr"
+}
+olika(sign(500), sign(5), sign(-5), sign(0))
+`);
+    expect(result.output).toBe('loy mosbat manfi sifr');
+  });
+
+  it('returns from inside che and stops the loop', async () => {
+    const result = await run(`
+opejana first_even(numbers) {
+  che (x we numbers) {
+    olika("checking " _ x)
+    ko (x % 2 == 0) {
+      raka x
+    }
+  }
+  raka
+}
+olika(first_even([3, 5, 8, 9, 10]))
+olika(first_even([1, 3]))
+`);
+    expect(result.diagnostics).toEqual([]);
+    expect(result.output).toBe('checking 3\nchecking 5\nchecking 8\n8\nchecking 1\nchecking 3\nnull');
+  });
+
+  it('returns from inside a kala loop in a function called from another function', async () => {
+    const result = await run(`
+opejana find(limit) {
+  i = 0
+  kala (rishtia) {
+    ko (i * i > limit) { raka i }
+    i = i + 1
+  }
+}
+opejana twice(limit) { raka find(limit) * 2 }
+olika(twice(50))
+`);
+    expect(result.output).toBe('16');
+  });
+});
+
+describe('errors in functions', () => {
+  it('reports an error in a function body at its own line', async () => {
+    const result = await run(`
+opejana divide(a, b) {
+  olika("dividing")
+  raka a / b
+}
+olika(divide(6, 3))
+olika(divide(1, 0))
+olika("not reached")
+`);
+    expect(result.output).toBe('dividing\n2\ndividing');
+    expect(result.diagnostics.map(d => d.code)).toEqual(['E310']);
+    expect(result.diagnostics[0].span?.start.line).toBe(4);
+  });
+
+  it('lets a caller catch an error from a nested call with koshish', async () => {
+    const result = await run(`
+opejana inner(l) { raka l[5] }
+opejana outer(l) { raka inner(l) }
+opejana safe(l) {
+  koshish {
+    raka outer(l)
+  } niwal (e) {
+    raka e.kind _ " " _ e.line
+  }
+}
+olika(safe([1]))
+olika(safe([1, 2, 3, 4, 5, 6]))
+`);
+    expect(result.diagnostics).toEqual([]);
+    expect(result.output).toBe('IndexError 2\n6');
+  });
+});
+
+describe('input in functions', () => {
+  it('waits for oghwara inside a function body before going on', async () => {
+    const result = await run(`
+opejana greet() {
+  nawm = oghwara("Nawm? ")
+  raka "Salam " _ nawm
+}
+olika(greet())
+olika("pai")
+`, ['Ali']);
+    expect(result.diagnostics).toEqual([]);
+    expect(result.events).toEqual([
+      'output: Nawm? ',
+      'prompt: Nawm? ',
+      'output: Salam Ali',
+      'output: pai',
+    ]);
+  });
+
+  it('asks inside a loop with the prompts in order', async () => {
+    const result = await run(`
+opejana collect(count) {
+  items = []
+  che (i we jorkanumbers(1, count + 1)) {
+    olika("shmera " _ i)
+    zyatkra(items, oghwara("? "))
+  }
+  raka items
+}
+olika(collect(3))
+`, ['a', 'b', 'c']);
+    expect(result.events).toEqual([
+      'output: shmera 1',
+      'output: ? ',
+      'prompt: ? ',
+      'output: shmera 2',
+      'output: ? ',
+      'prompt: ? ',
+      'output: shmera 3',
+      'output: ? ',
+      'prompt: ? ',
+      'output: [a, b, c]',
+    ]);
+  });
+
+  it('passes the answer of oghwara on as a return value', async () => {
+    const result = await run(`
+opejana ask(prompt) { raka oghwara(prompt) }
+jama_kawal = shmera(ask("a? ")) + shmera(ask("b? "))
+olika(jama_kawal)
+`, ['2', '3']);
+    expect(result.output).toBe('a? \nb? \n5');
+    expect(result.events.filter(event => event.startsWith('prompt'))).toEqual(['prompt: a? ', 'prompt: b? ']);
+  });
+});
+
+describe('reduce', () => {
+  it('starts from the first element when no initial value is given', async () => {
+    const result = await run(`
+add = opejana(a, b) { raka a + b }
+olika(reduce([1, 2, 3], add))
+olika(reduce([1, 2, 3], add, 10))
+olika(reduce([], add, 0))
+`);
+    expect(result.output).toBe('6\n16\n0');
+  });
+
+  it('needs an initial value for an empty array', async () => {
+    const result = await run('olika(reduce([], opejana(a, b) { raka a + b }))');
+    expect(result.diagnostics.map(d => d.code)).toEqual(['E405']);
+  });
+});
+
+describe('modules', () => {
+  const modules = (files: Record<string, string>) => ({ moduleResolver: new MemoryModuleResolver(files), modulePath: 'main.ppp' });
+
+  it('reports an error inside a module at the line of its import', async () => {
+    const result = await run(`
+olika("mkhke")
+rawra "err.ppp"
+`, [], modules({ 'err.ppp': 'olika("err")\nolika(1 / 0)\n' }));
+    expect(result.output).toBe('mkhke\nerr');
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0].code).toBe('E350');
+    expect(result.diagnostics[0].span?.start.line).toBe(3);
+    expect(result.diagnostics[0].params).toEqual({ module: 'err.ppp', line: 2, code: 'E310' });
+  });
+
+  it('keeps the kind of an error inside a module for koshish', async () => {
+    const result = await run(`
+koshish {
+  rawra "err.ppp"
+} niwal (e) {
+  olika(e.kind, e.line)
+}
+`, [], modules({ 'err.ppp': 'olika(1 / 0)' }));
+    expect(result.output).toBe('ZeroDivisionError 3');
+  });
+
+  it('reports a circular import between two modules with the whole cycle', async () => {
+    const result = await run(`
+olika("mkhke")
+rawra "cyc1.ppp"
+`, [], modules({ 'cyc1.ppp': 'rawra "cyc2.ppp"', 'cyc2.ppp': 'rawra "cyc1.ppp"' }));
+    expect(result.output).toBe('mkhke');
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0].code).toBe('E319');
+    expect(result.diagnostics[0].span?.start.line).toBe(3);
+    expect(result.diagnostics[0].params).toEqual({ cycle: 'cyc1.ppp -> cyc2.ppp -> cyc1.ppp' });
+  });
+
+  it('does not let an import replace a constant or a name declared in the same block', async () => {
+    const files = { 'a.ppp': 'sadir sabit K = 10\nsadir badal V = 2' };
+    const constant = await run('sabit K = 1\nrawra "a.ppp"\nolika(K)', [], modules(files));
+    expect(constant.output).toBe('');
+    expect(constant.diagnostics.map(d => [d.code, d.params, d.span?.start.line])).toEqual([['E314', { name: 'K' }, 2]]);
+
+    const alias = await run('sabit A = 1\nrawra "a.ppp" lakah A', [], modules(files));
+    expect(alias.diagnostics.map(d => [d.code, d.params])).toEqual([['E314', { name: 'A' }]]);
+
+    const declared = await run('badal V = 1\nrawra "a.ppp"', [], modules(files));
+    expect(declared.diagnostics.map(d => [d.code, d.params])).toEqual([['E313', { name: 'V' }]]);
+  });
+
+  it('allows importing the same module again', async () => {
+    const files = { 'a.ppp': 'sadir sabit K = 10' };
+    const result = await run('rawra "a.ppp"\nrawra "a.ppp"\nrawra "a.ppp" lakah a\nrawra "a.ppp" lakah a\nolika(K, a.K)', [], modules(files));
+    expect(result.diagnostics).toEqual([]);
+    expect(result.output).toBe('10 10');
+  });
+
+  it('keeps exported constants constant', async () => {
+    const result = await run(`
+rawra "riazi.ppp"
+olika(TEN)
+TEN = 5
+`, [], modules({ 'riazi.ppp': 'sadir sabit TEN = 10' }));
+    expect(result.output).toBe('10');
+    expect(result.diagnostics.map(d => d.code)).toEqual(['E314']);
+  });
+});
+
+describe('error kinds', () => {
+  it('gives built-in errors the kind of the same failure from an operator', async () => {
+    const result = await run(`
+opejana kind(f) {
+  koshish { f() } niwal (e) { raka e.kind }
+}
+olika(kind(opejana() { 1 / 0 }), kind(opejana() { intdiv(1, 0) }))
+olika(kind(opejana() { [1][5] }), kind(opejana() { lirkra([1], 5) }))
+olika(kind(opejana() { -"a" }), kind(opejana() { sqrt("a") }))
+olika(kind(opejana() { randint(5, 1) }))
+`);
+    expect(result.output).toBe('ZeroDivisionError ZeroDivisionError\nIndexError IndexError\nTypeError TypeError\nRuntimeError');
+  });
+});
+
+describe('diagnostics', () => {
+  it('names operand types the way dawl does', async () => {
+    const result = await run('olika([1] + 1)');
+    expect(result.diagnostics[0].code).toBe('E321');
+    expect(result.diagnostics[0].params).toEqual({ operator: '+', left: 'lest', right: 'shmera' });
+    expect(result.diagnostics[0].message).toBe('Cannot add an array and a number');
+  });
+
+  it('starts a runtime error at the column of the node that failed', async () => {
+    const result = await run('badal x = 1\nolika(x + [1])');
+    expect(result.diagnostics[0].span).toEqual({ start: { line: 2, column: 9 }, end: { line: 2, column: 10 } });
+  });
+});
+
+describe('update operators', () => {
+  it('reads -- after a value that is not a target as two minus signs', async () => {
+    const result = await run('olika(5--3)\nolika(--3)\nbadal a = [1]\nolika(2--a[0])');
+    expect(result.diagnostics).toEqual([]);
+    expect(result.output).toBe('8\n3\n3');
+  });
+
+  it('reads -- between a target and a value as two minus signs', async () => {
+    const result = await run('badal x = 5\nbadal y = x--3\nolika(x, y)\nolika(x--1)');
+    expect(result.diagnostics).toEqual([]);
+    expect(result.output).toBe('5 8\n6');
+  });
+
+  it('updates variables and elements', async () => {
+    const result = await run('badal x = 2\nx--\nbadal a = [1]\na[0]++\nolika(x, a)');
+    expect(result.output).toBe('1 [2]');
+  });
+
+  it('rejects an update of a value that is not a target', async () => {
+    const result = await run('olika(5--)');
+    expect(result.diagnostics.map(d => d.code)).toEqual(['E212']);
+  });
+});
+
+describe('seeded random', () => {
+  const program = `
+olika(random())
+olika(randint(1, 100), randint(1, 100), randint(1, 100))
+olika(choice(["a", "b", "c", "d"]), choice(["a", "b", "c", "d"]))
+olika(shuffle([1, 2, 3, 4, 5, 6]))
+`;
+
+  it('replays the same numbers for the same seed', async () => {
+    const first = await run(program, [], { seed: 42 });
+    const second = await run(program, [], { seed: 42 });
+    expect(first.diagnostics).toEqual([]);
+    expect(second.output).toBe(first.output);
+  });
+
+  it('gives different numbers for a different seed', async () => {
+    const first = await run(program, [], { seed: 42 });
+    const other = await run(program, [], { seed: 7 });
+    expect(other.output).not.toBe(first.output);
+  });
+});
+
+describe('syntax errors', () => {
+  it('reports every broken statement in one pass and keeps the rest of the program', () => {
+    const { program, diagnostics } = parseSource('olika("salam"\nbadal = 5\nko (rishtia) {\n  olika(1 +)\n}\nolika("pai")');
+    expect(diagnostics.map(d => [d.code, d.span?.start.line, d.span?.start.column])).toEqual([
+      ['E201', 2, 1],
+      ['E202', 2, 7],
+      ['E204', 4, 12],
+    ]);
+    expect(program.body.map(statement => statement.type)).toEqual(['IfStatement', 'ExpressionStatement']);
+  });
+
+  it('reports lexing and syntax errors together, in source order', async () => {
+    const result = await run('olika("salam")\nx = @\ny = )\nz = "open');
+    expect(result.output).toBe('');
+    expect(result.diagnostics.map(d => [d.phase, d.code, d.span?.start.line])).toEqual([
+      ['lex', 'E104', 2],
+      ['parse', 'E204', 3],
+      ['lex', 'E101', 4],
+    ]);
+  });
+
+  it('reports a template string left open inside an interpolation, not the end of the file', () => {
+    const { diagnostics } = parseSource('olika("salam")\nolika(`abc ${');
+    expect(diagnostics.map(d => [d.code, d.span?.start.line])).toEqual([['E103', 2]]);
+  });
+
+  it('runs a program that only has warnings and reports them with the result', async () => {
+    const result = await run('olika("C:\\path")');
+    expect(result.output).toBe('C:\\path');
+    expect(result.error).toBeUndefined();
+    expect(result.diagnostics.map(d => [d.code, d.severity])).toEqual([['E102', 'warning']]);
+  });
+
+  it('lists warnings with the errors when a program cannot run', async () => {
+    const result = await run('olika("C:\\path")\nx = )');
+    expect(result.output).toBe('');
+    expect(result.diagnostics.map(d => [d.code, d.severity])).toEqual([['E102', 'warning'], ['E204', 'error']]);
+    expect(result.error).toBe('Unexpected token \')\' at line 2, column 5');
+  });
+
+  it('skips a broken map literal whole, even when a key is a keyword', () => {
+    const { program, diagnostics } = parseSource('m = {ko: 1}\nolika(m)');
+    expect(diagnostics.map(d => d.code)).toEqual(['E213']);
+    expect(program.body).toHaveLength(1);
+  });
+});
+
+describe('execution limits', () => {
+  it('stops a program that runs more than maxSteps steps', async () => {
+    const result = await run('badal i = 0\nkala (rishtia) { i += 1 }', [], { maxSteps: 1000 });
+    expect(result.diagnostics.map(d => [d.code, d.params])).toEqual([['E330', { limit: 1000 }]]);
+  });
+
+  it('stops calls nested deeper than maxCallDepth', async () => {
+    const result = await run('opejana f(n) { raka f(n + 1) }\nf(0)', [], { maxCallDepth: 50 });
+    expect(result.diagnostics.map(d => [d.code, d.params])).toEqual([['E331', { limit: 50 }]]);
+  });
+
+  it('stops a program that runs longer than the timeout', async () => {
+    const result = await run('kala (rishtia) { }', [], { timeout: 50 });
+    expect(result.diagnostics.map(d => [d.code, d.params])).toEqual([['E332', { milliseconds: 50 }]]);
+  });
+
+  it('stops a program when the signal is aborted while it waits for oghwara', async () => {
+    const controller = new AbortController();
+    const result = await runPashtoPlusPlus(
+      'olika("mkhke")\nnawm = oghwara("Nawm? ")\nolika("wrusta")',
+      () => {
+        setTimeout(() => controller.abort(), 10);
+        return new Promise<string>(() => {}); // Never answers
+      },
+      { signal: controller.signal }
+    );
+    expect(result.output).toBe('mkhke\nNawm? ');
+    expect(result.diagnostics.map(d => [d.code, d.span?.start.line])).toEqual([['E333', 2]]);
+  });
+
+  it('cannot be caught by koshish', async () => {
+    const result = await run('koshish {\n  kala (rishtia) { }\n} niwal (e) {\n  olika("caught")\n}', [], { maxSteps: 100 });
+    expect(result.output).toBe('');
+    expect(result.diagnostics.map(d => d.code)).toEqual(['E330']);
+  });
+});
+
+describe('JSON', () => {
+  it('writes maps, arrays and instances, indented by up to ten spaces', async () => {
+    const result = await run(`
+tolgay Tki {
+  opejana jorawal(x) { da.x = x }
+}
+olika(jsonstringify({a: [1, rishtia, jsonparse("null")], b: "s"}))
+olika(jsonstringify([Tki(1)], 2))
+`);
+    expect(result.diagnostics).toEqual([]);
+    expect(result.output).toBe('{"a":[1,true,null],"b":"s"}\n[\n  {\n    "x": 1\n  }\n]');
+  });
+
+  it('rejects an indent outside 0 to 10', async () => {
+    for (const indent of ['11', '-1', '1.5', '"2"']) {
+      const result = await run(`jsonstringify([1], ${indent})`);
+      expect(result.diagnostics.map(d => [d.code, d.params])).toEqual([
+        ['E402', { function: 'jsonstringify', position: 2, min: 0, max: 10 }],
+      ]);
+    }
+  });
+
+  it('rejects a value that contains itself', async () => {
+    const result = await run('badal a = [1]\nzyatkra(a, a)\njsonstringify(a)');
+    expect(result.diagnostics.map(d => [d.code, d.span?.start.line])).toEqual([['E416', 3]]);
+  });
+
+  it('writes a value that appears twice without containing itself', async () => {
+    const result = await run('badal a = [1]\nolika(jsonstringify([a, a]))');
+    expect(result.output).toBe('[[1],[1]]');
+  });
+
+  it('rejects functions and numbers JSON cannot hold', async () => {
+    const fn = await run('jsonstringify({f: opejana() { raka 1 }})');
+    expect(fn.diagnostics.map(d => d.code)).toEqual(['E415']);
+    const infinite = await run('jsonstringify(10 ** 400)');
+    expect(infinite.diagnostics.map(d => [d.code, d.params])).toEqual([['E415', { value: 'Infinity' }]]);
+  });
+
+  it('reports invalid JSON from jsonparse with its line and column', async () => {
+    const result = await run('jsonparse("[1,\\n 2,]")');
+    expect(result.diagnostics.map(d => [d.code, d.params])).toEqual([
+      ['E414', { line: 2, column: 4, found: ']', foundType: 'CHAR' }],
+    ]);
+  });
+});
+
+describe('logical operators', () => {
+  it('only evaluates the right side when the left side does not decide the result', async () => {
+    const result = await run(`
+opejana loud(value) {
+  olika("called")
+  raka value
+}
+olika(ghalat aw loud(rishtia))
+olika(rishtia ya loud(ghalat))
+olika(rishtia aw loud(ghalat))
+olika(ghalat || loud(rishtia))
+`);
+    expect(result.output).toBe('ghalat\nrishtia\ncalled\nghalat\ncalled\nrishtia');
+  });
+
+  it('gives back the operand that decided the result', async () => {
+    const result = await run('olika(0 ya "default", "a" aw "b", [] && 1, na 0, !"")');
+    expect(result.output).toBe('default b [] rishtia rishtia');
+  });
+
+  it('does not evaluate an error on the right side when the left side decides', async () => {
+    const result = await run('olika(ghalat aw 1 / 0)');
+    expect(result.diagnostics).toEqual([]);
+    expect(result.output).toBe('ghalat');
+  });
+});
+
+describe('indexing', () => {
+  it('reads and writes elements of arrays, nested arrays and strings', async () => {
+    const result = await run('badal a = [1, [2, 3], "salam"]\na[0] = 10\na[1][1] = 30\nolika(a[0], a[1], a[2][0], a[1][1])');
+    expect(result.diagnostics).toEqual([]);
+    expect(result.output).toBe('10 [2, 30] s 30');
+  });
+
+  it('rejects an index past the end', async () => {
+    const result = await run('badal a = [1, 2, 3]\nolika(a[3])');
+    expect(result.diagnostics.map(d => [d.code, d.params, d.span?.start.line])).toEqual([['E317', { index: 3, length: 3 }, 2]]);
+    expect(result.diagnostics[0].message).toBe('Index 3 is out of bounds (length 3)');
+  });
+
+  it('rejects a negative index, for reading and for writing', async () => {
+    const read = await run('olika("abc"[-1])');
+    expect(read.diagnostics.map(d => [d.code, d.params])).toEqual([['E317', { index: -1, length: 3 }]]);
+    const write = await run('badal a = [1]\na[-1] = 5');
+    expect(write.diagnostics.map(d => [d.code, d.params])).toEqual([['E317', { index: -1, length: 1 }]]);
+  });
+
+  it('rejects an index that is not a whole number', async () => {
+    const result = await run('olika([1, 2][0.5])');
+    expect(result.diagnostics.map(d => [d.code, d.params])).toEqual([['E341', { index: '0.5' }]]);
+  });
+
+  it('points to the built-in functions for a named member of an array or string', async () => {
+    const length = await run('badal a = [1, 2]\nolika(a.length)');
+    expect(length.diagnostics.map(d => [d.code, d.params, d.message])).toEqual([
+      ['E346', { type: 'lest', member: 'length' }, "An array has no field or method 'length'; use a function such as oshmara instead"],
+    ]);
+    const push = await run('badal a = [1]\na.push(2)');
+    expect(push.diagnostics.map(d => [d.code, d.params])).toEqual([['E346', { type: 'lest', member: 'push' }]]);
+    const text = await run('olika("salam".length)');
+    expect(text.diagnostics.map(d => [d.code, d.params])).toEqual([['E346', { type: 'matn', member: 'length' }]]);
+    const write = await run('badal a = [1]\na.length = 0');
+    expect(write.diagnostics.map(d => [d.code, d.params])).toEqual([['E346', { type: 'lest', member: 'length' }]]);
+  });
+
+  it('rejects indexing into a value that has no elements', async () => {
+    const read = await run('badal n = 5\nolika(n[0])');
+    expect(read.diagnostics.map(d => [d.code, d.params, d.message])).toEqual([['E340', { type: 'shmera' }, 'Cannot index into a number']]);
+    const write = await run('badal s = "abc"\ns[0] = "x"');
+    expect(write.diagnostics.map(d => [d.code, d.params, d.message])).toEqual([['E342', { type: 'matn' }, 'Cannot assign to an index of a string']]);
+  });
+});
+
+describe('maps', () => {
+  it('reads keys with brackets and dots', async () => {
+    const result = await run('badal m = {"nawm": "Ali", umar: 20}\nolika(m["nawm"], m.umar, oshmara(m))');
+    expect(result.diagnostics).toEqual([]);
+    expect(result.output).toBe('Ali 20 2');
+  });
+
+  it('changes and adds keys', async () => {
+    const result = await run('badal m = {a: 1}\nm.a = 2\nm["b"] = 3\nm.c = {d: 4}\nm.c.d += 1\nolika(m)');
+    expect(result.output).toBe('{a: 2, b: 3, c: {d: 5}}');
+  });
+
+  it('loops over the keys in the order they were added', async () => {
+    const result = await run('badal m = {z: 1, a: 2}\nm.k = 3\nche (key we m) {\n  olika(key, m[key])\n}');
+    expect(result.output).toBe('z 1\na 2\nk 3');
+  });
+
+  it('rejects a missing key and a key that is not a string', async () => {
+    const missing = await run('badal m = {a: 1}\nolika(m.b)');
+    expect(missing.diagnostics.map(d => [d.code, d.params])).toEqual([['E318', { key: 'b' }]]);
+    const number = await run('badal m = {a: 1}\nm[1] = 2');
+    expect(number.diagnostics.map(d => [d.code, d.params])).toEqual([['E345', { key: '1' }]]);
+  });
+});
+
+describe('break and continue', () => {
+  it('skips rounds with wrusta and leaves the loop with bas', async () => {
+    const result = await run(`
+che (x we jorkanumbers(1, 10)) {
+  ko (x % 2 == 0) { wrusta }
+  ko (x > 6) { bas }
+  olika(x)
+}
+badal i = 0
+kala (rishtia) {
+  i += 1
+  ko (i == 3) { bas }
+}
+olika(i)
+`);
+    expect(result.diagnostics).toEqual([]);
+    expect(result.output).toBe('1\n3\n5\n3');
+  });
+
+  it('only leaves the innermost loop', async () => {
+    const result = await run(`
+che (a we [1, 2]) {
+  che (b we [1, 2, 3]) {
+    ko (b == 2) { bas }
+    olika(a _ b)
+  }
+}
+`);
+    expect(result.output).toBe('11\n21');
+  });
+
+  it('rejects bas and wrusta outside a loop when parsing', () => {
+    const { diagnostics } = parseSource('bas\nopejana f() {\n  wrusta\n}\nche (x we [1]) {\n  opejana g() { bas }\n}');
+    expect(diagnostics.map(d => [d.code, d.params, d.span?.start.line])).toEqual([
+      ['E210', { keyword: 'bas' }, 1],
+      ['E210', { keyword: 'wrusta' }, 3],
+      ['E210', { keyword: 'bas' }, 6],
+    ]);
+  });
+});
+
+describe('classes', () => {
+  const shakhs = `
+tolgay Shakhs {
+  opejana jorawal(nawm, umar) {
+    da.nawm = nawm
+    da.umar = umar
+  }
+  opejana salam() {
+    raka "Salam, za " _ da.nawm _ " yam"
+  }
+  opejana zor_sha() {
+    da.umar += 1
+    raka da
+  }
+}
+`;
+
+  it('sets up an instance with jorawal and reads its fields in methods with da', async () => {
+    const result = await run(shakhs + 'badal s = Shakhs("Ali", 20)\nolika(s.salam(), s.umar)\nolika(s)');
+    expect(result.diagnostics).toEqual([]);
+    expect(result.output).toBe('Salam, za Ali yam 20\nShakhs {nawm: Ali, umar: 20}');
+  });
+
+  it('keeps each instance apart', async () => {
+    const result = await run(shakhs + 'badal a = Shakhs("Ali", 20)\nbadal b = Shakhs("Gul", 30)\na.zor_sha().zor_sha()\nolika(a.umar, b.umar)');
+    expect(result.output).toBe('22 30');
+  });
+
+  it('binds a method to its instance when it is taken as a value', async () => {
+    const result = await run(shakhs + 'badal s = Shakhs("Gul", 30)\nbadal greet = s.salam\nolika(greet())\nolika(map([s], opejana(p) { raka p.salam() }))');
+    expect(result.output).toBe('Salam, za Gul yam\n[Salam, za Gul yam]');
+  });
+
+  it('rejects arguments to a class without jorawal, unknown members and da outside a method', async () => {
+    const args = await run('tolgay Khali { }\nKhali(1)');
+    expect(args.diagnostics.map(d => [d.code, d.params])).toEqual([['E325', { name: 'Khali' }]]);
+    const member = await run(shakhs + 'olika(Shakhs("Ali", 20).kor)');
+    expect(member.diagnostics.map(d => [d.code, d.params])).toEqual([['E343', { name: 'Shakhs', member: 'kor' }]]);
+    const outside = await run('olika(da)');
+    expect(outside.diagnostics.map(d => d.code)).toEqual(['E320']);
+  });
+});
+
+describe('intikhab', () => {
+  const describeNumber = `
+opejana describe(n) {
+  intikhab (n) {
+    halat 1 { raka "yaw" }
+    halat 2, 3 { raka "dwa ya dre" }
+    halat 4 tar 10 { raka "tsalor tar las" }
+    halat "yaw" { raka "matn" }
+    geni { raka "bal" }
+  }
+}
+`;
+
+  it('runs the first case whose value, list or range matches, or geni', async () => {
+    const result = await run(describeNumber + 'olika(describe(1), describe(3), describe(4), describe(10), describe(10.5), describe("yaw"), describe(0))');
+    expect(result.diagnostics).toEqual([]);
+    expect(result.output).toBe('yaw dwa ya dre tsalor tar las tsalor tar las bal matn bal');
+  });
+
+  it('does nothing when no case matches and there is no geni', async () => {
+    const result = await run('intikhab (5) {\n  halat 1 { olika("yaw") }\n}\nolika("pai")');
+    expect(result.output).toBe('pai');
+  });
+
+  it('rejects range bounds that are not numbers', async () => {
+    const result = await run('intikhab (5) {\n  halat "a" tar 10 { olika("x") }\n}');
+    expect(result.diagnostics.map(d => [d.code, d.params, d.span?.start.line])).toEqual([['E322', { from: 'matn', to: 'shmera' }, 2]]);
+  });
+
+  it('rejects a second geni', () => {
+    const { diagnostics } = parseSource('intikhab (5) {\n  geni { }\n  geni { }\n}');
+    expect(diagnostics.map(d => [d.code, d.span?.start.line])).toEqual([['E208', 3]]);
+  });
+});
+
+describe('geni ko', () => {
+  it('runs the first branch of a chain whose condition holds', async () => {
+    const result = await run(`
+opejana grade(n) {
+  ko (n >= 90) {
+    raka "A"
+  } geni ko (n >= 80) {
+    raka "B"
+  } geni ko (n >= 70) {
+    raka "C"
+  } geni {
+    raka "F"
+  }
+}
+olika(grade(95), grade(85), grade(80), grade(72), grade(10))
+`);
+    expect(result.output).toBe('A B B C F');
+  });
+});
+
+describe('declarations', () => {
+  it('rejects changing a sabit constant, also with compound and update operators', async () => {
+    for (const change of ['PI = 3', 'PI += 1', 'PI++']) {
+      const result = await run(`sabit PI = 3.14\n${change}`);
+      expect(result.diagnostics.map(d => [d.code, d.params, d.span?.start.line])).toEqual([['E314', { name: 'PI' }, 2]]);
+    }
+  });
+
+  it('needs a value for sabit', () => {
+    const { diagnostics } = parseSource('sabit PI');
+    expect(diagnostics.map(d => [d.code, d.params])).toEqual([['E207', { name: 'PI' }]]);
+  });
+
+  it('rejects declaring a name twice in one block, but allows it in an inner block', async () => {
+    const twice = await run('badal x = 1\nbadal x = 2');
+    expect(twice.diagnostics.map(d => [d.code, d.params, d.span?.start.line])).toEqual([['E313', { name: 'x' }, 2]]);
+
+    const inner = await run('badal x = 1\nko (rishtia) {\n  badal x = 10\n  olika(x)\n}\nolika(x)');
+    expect(inner.diagnostics).toEqual([]);
+    expect(inner.output).toBe('10\n1');
+  });
+
+  it('rejects a function that replaces a constant', async () => {
+    const result = await run('sabit f = 1\nopejana f() { }');
+    expect(result.diagnostics.map(d => d.code)).toEqual(['E314']);
+  });
+
+  it('needs a declaration before an assignment in strict mode', async () => {
+    const loose = await run('x = 1\nolika(x)');
+    expect(loose.output).toBe('1');
+
+    const strict = await run('badal y = 1\ny = 2\nx = 1', [], { strict: true });
+    expect(strict.diagnostics.map(d => [d.code, d.params, d.span?.start.line])).toEqual([['E315', { name: 'x' }, 3]]);
+  });
+});
+
+describe('string built-ins', () => {
+  it('changes case, trims, splits, joins and replaces', async () => {
+    const result = await run(`
+olika(loyturi("salam"), warokturi("SALAM"), "[" _ pakawa("  a b  ") _ "]")
+olika(wesha("a,b,c", ","), wesha("abc", ""), yuzay([1, "b", rishtia], "-"))
+olika(badalawa("a-b-c", "-", "+"))
+`);
+    expect(result.diagnostics).toEqual([]);
+    expect(result.output).toBe('SALAM salam [a b]\n[a, b, c] [a, b, c] 1-b-rishtia\na+b+c');
+  });
+
+  it('searches, slices and formats strings', async () => {
+    const result = await run('olika(larey("salam", "lam"), ziay("salam", "a"), ziay("salam", "x"), tota("salam", 1, 3), tota("salam", 2))\nolika(bna("{0} + {0} = {1}", 2, 4))');
+    expect(result.output).toBe('rishtia 1 -1 al lam\n2 + 2 = 4');
+  });
+
+  it('checks the type of each argument', async () => {
+    const result = await run('loyturi(5)');
+    expect(result.diagnostics.map(d => [d.code, d.params, d.message])).toEqual([
+      ['E401', { function: 'loyturi', position: 1, expected: 'string' }, 'loyturi expects a string as its first argument'],
+    ]);
+    const separator = await run('wesha("a b", 1)');
+    expect(separator.diagnostics.map(d => [d.code, d.params])).toEqual([['E401', { function: 'wesha', position: 2, expected: 'string' }]]);
+  });
+
+  it('checks the bounds of tota', async () => {
+    const result = await run('tota("salam", 1, 9)');
+    expect(result.diagnostics.map(d => [d.code, d.params])).toEqual([['E402', { function: 'tota', position: 3, min: 0, max: 5 }]]);
+  });
+});
+
+describe('math built-ins', () => {
+  it('computes roots, powers, rounding, logarithms and integer division', async () => {
+    const result = await run(`
+olika(sqrt(16), pow(2, 10), 2 ** 3 ** 2, -2 ** 2)
+olika(floor(2.7), ceil(2.1), round(2.5), round(3.14159, 2))
+olika(log(E), log(8, 2), intdiv(7, 2), intdiv(-7, 2), isint(4), isint(4.5))
+olika(round(sin(PI / 2), 5), cos(0))
+`);
+    expect(result.diagnostics).toEqual([]);
+    expect(result.output).toBe('4 1024 512 -4\n2 3 3 3.14\n1 3 3 -4 rishtia ghalat\n1 1');
+  });
+
+  it('keeps PI and E constant', async () => {
+    const result = await run('PI = 3');
+    expect(result.diagnostics.map(d => [d.code, d.params])).toEqual([['E314', { name: 'PI' }]]);
+  });
+
+  it('checks the type of each argument', async () => {
+    const result = await run('pow(2, "3")');
+    expect(result.diagnostics.map(d => [d.code, d.params])).toEqual([['E401', { function: 'pow', position: 2, expected: 'number' }]]);
+  });
+
+  it('rejects values outside the domain of a function', async () => {
+    for (const expression of ['sqrt(-1)', 'log(0)', 'log(8, 1)', 'asin(2)']) {
+      const result = await run(expression);
+      expect(result.diagnostics.map(d => [d.code, d.params])).toEqual([['E410', { expression }]]);
+    }
+  });
+});
+
+describe('array built-ins', () => {
+  it('changes the array itself with zyatkra, wubasa, nanakra and lirkra', async () => {
+    const result = await run(`
+badal a = [1, 2]
+olika(zyatkra(a, 3, 4), a)
+olika(wubasa(a), a)
+nanakra(a, 0, 0)
+olika(lirkra(a, 1), a)
+`);
+    expect(result.diagnostics).toEqual([]);
+    expect(result.output).toBe('4 [1, 2, 3, 4]\n4 [1, 2, 3]\n1 [0, 2, 3]');
+  });
+
+  it('returns new arrays from gadawa, apota, tota and sort, leaving the original alone', async () => {
+    const result = await run(`
+badal a = [3, 1, 2]
+olika(gadawa(a, [4]), apota(a), tota(a, 1), sort(a), tartib(["b", "a"]), a)
+olika(sort(a, opejana(x, y) { raka y - x }), tol(a), larey(a, 2), ziay(a, 2))
+`);
+    expect(result.output).toBe('[3, 1, 2, 4] [2, 1, 3] [1, 2] [1, 2, 3] [a, b] [3, 1, 2]\n[3, 2, 1] 6 rishtia 2');
+  });
+
+  it('checks the type of each argument', async () => {
+    const result = await run('zyatkra("abc", 1)');
+    expect(result.diagnostics.map(d => [d.code, d.params])).toEqual([['E401', { function: 'zyatkra', position: 1, expected: 'array' }]]);
+  });
+
+  it('checks the index given to nanakra', async () => {
+    const result = await run('nanakra([1, 2], 5, 0)');
+    expect(result.diagnostics.map(d => [d.code, d.params])).toEqual([['E402', { function: 'nanakra', position: 2, min: 0, max: 2 }]]);
+  });
+
+  it('rejects taking from an empty array and mixed types in sort', async () => {
+    const empty = await run('wubasa([])');
+    expect(empty.diagnostics.map(d => [d.code, d.params])).toEqual([['E405', { function: 'wubasa' }]]);
+    const mixed = await run('sort([1, "a"])');
+    expect(mixed.diagnostics.map(d => d.code)).toEqual(['E409']);
+  });
+});
+
+describe('type built-ins', () => {
+  it('names the type of each kind of value', async () => {
+    const result = await run(`
+tolgay Tki { }
+olika(dawl(1), dawl("a"), dawl(rishtia), dawl([]), dawl({}), dawl(jsonparse("null")))
+olika(dawl(Tki), dawl(Tki()), dawl(olika), dawl(opejana() { }))
+`);
+    expect(result.diagnostics).toEqual([]);
+    expect(result.output).toBe('shmera matn mantiqi lest naqsha hich\ntolgay Tki opejana opejana');
+  });
+
+  it('names an imported module in Pashto', async () => {
+    const result = await run('rawra "a.ppp" lakah a\nolika(dawl(a))\nbadal b = -a', [], { moduleResolver: new MemoryModuleResolver({ 'a.ppp': '' }) });
+    expect(result.output).toBe('madul');
+    expect(result.diagnostics.map(d => [d.code, d.params, d.message])).toEqual([['E324', { type: 'madul' }, 'Cannot negate a module']]);
+  });
+
+  it('converts between numbers, strings and booleans', async () => {
+    const result = await run(`
+olika(shmera("42") + 1, shmera(" -3.5 "), shmera("۱۲"), shmera(rishtia))
+olika(matn(12) _ matn([1]), mantiqi("rishtia"), mantiqi(" غلط "), mantiqi(0), mantiqi([1]))
+olika(shmerada("12"), shmerada("12a"), shmerada(5), shmerada(rishtia))
+`);
+    expect(result.output).toBe('43 -3.5 12 1\n12[1] rishtia ghalat ghalat rishtia\nrishtia ghalat rishtia ghalat');
+  });
+
+  it('rejects text that is not a number or a boolean', async () => {
+    const number = await run('shmera("12a")');
+    expect(number.diagnostics.map(d => [d.code, d.params])).toEqual([['E412', { value: '12a' }]]);
+    const boolean = await run('mantiqi("haw")');
+    expect(boolean.diagnostics.map(d => [d.code, d.params])).toEqual([['E413', { value: 'haw' }]]);
+  });
+});
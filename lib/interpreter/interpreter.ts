@@ -3,20 +3,45 @@
  * Executes the AST generated by the parser
  */
 
-import { Node, NodeType, Program, Statement, Expression, NumericLiteral, StringLiteral, BooleanLiteral, Identifier, BinaryExpression, AssignmentExpression, CallExpression, ReturnStatement, IfStatement, WhileStatement, ForStatement, BlockStatement, ExpressionStatement, ArrayLiteral, FunctionDeclaration } from './parser';
+import { Node, NodeType, Program, Statement, Expression, NumericLiteral, StringLiteral, TemplateLiteral, BooleanLiteral, Identifier, BinaryExpression, UnaryExpression, UpdateExpression, AssignmentExpression, CallExpression, MemberExpression, ReturnStatement, IfStatement, MatchStatement, MatchPattern, WhileStatement, ForStatement, TryStatement, ThrowStatement, ImportStatement, ExportDeclaration, BlockStatement, ExpressionStatement, VariableDeclaration, ArrayLiteral, MapLiteral, FunctionDeclaration, FunctionExpression, ClassDeclaration, ThisExpression } from './parser';
+import { Lexer, COMPOUND_ASSIGNMENT_OPERATORS, PASHTO_KEYWORDS, toLatinNumber } from './lexer';
+import { Parser } from './parser';
+import { ModuleResolver } from './modules';
+import { JsonParser, JsonSyntaxError } from './json';
+import { Diagnostic, DiagnosticCode, DiagnosticError, DiagnosticParams, SourcePosition, formatDiagnostic, hasErrors } from './diagnostics';
 
 // Environment for storing variables and functions
 class Environment {
   private values: Map<string, any>;
+  private constants: Set<string>;
   private parent: Environment | null;
 
   constructor(parent: Environment | null = null) {
     this.values = new Map();
+    this.constants = new Set();
     this.parent = parent;
   }
 
-  define(name: string, value: any): void {
+  define(name: string, value: Value, constant: boolean = false): void {
     this.values.set(name, value);
+    if (constant) {
+      this.constants.add(name);
+    } else {
+      this.constants.delete(name);
+    }
+  }
+
+  // Whether the name is defined in this scope itself, ignoring parents
+  hasOwn(name: string): boolean {
+    return this.values.has(name);
+  }
+
+  // Whether the nearest definition of the name is a constant
+  isConstant(name: string): boolean {
+    if (this.values.has(name)) {
+      return this.constants.has(name);
+    }
+    return this.parent ? this.parent.isConstant(name) : false;
   }
 
   assign(name: string, value: any): void {
@@ -45,6 +70,11 @@ class Environment {
     throw new Error(`Undefined variable '${name}'`);
   }
 
+  // Names defined directly in this environment (not its parents)
+  names(): string[] {
+    return Array.from(this.values.keys());
+  }
+
   has(name: string): boolean {
     if (this.values.has(name)) {
       return true;
@@ -60,25 +90,37 @@ class Environment {
 
 // Function object for user-defined functions
 class PashtoPlusPlusFunction {
-  private declaration: FunctionDeclaration;
+  private declaration: FunctionDeclaration | FunctionExpression;
   private closure: Environment;
 
-  constructor(declaration: FunctionDeclaration, closure: Environment) {
+  constructor(declaration: FunctionDeclaration | FunctionExpression, closure: Environment) {
     this.declaration = declaration;
     this.closure = closure;
   }
 
-  call(interpreter: Interpreter, args: any[]): any {
+  // Anonymous functions have no name
+  get name(): string | null {
+    return this.declaration.type === NodeType.FunctionDeclaration ? this.declaration.name : null;
+  }
+
+  // Create a copy of this method with `da` bound to an instance
+  bind(instance: PashtoPlusPlusInstance): PashtoPlusPlusFunction {
+    const environment = new Environment(this.closure);
+    environment.define('da', instance);
+    return new PashtoPlusPlusFunction(this.declaration, environment);
+  }
+
+  async call(interpreter: Interpreter, args: Value[]): Promise<Value> {
     const environment = new Environment(this.closure);
 
-    // Define parameters in the function's environment
+    // Define parameters in the function's environment (missing arguments are null)
     for (let i = 0; i < this.declaration.params.length; i++) {
-      environment.define(this.declaration.params[i], args[i]);
+      environment.define(this.declaration.params[i], i < args.length ? args[i] : null);
     }
 
     try {
       // Execute the function body
-      interpreter.executeBlock(this.declaration.body.body, environment);
+      await interpreter.executeBlock(this.declaration.body.body, environment);
     } catch (returnValue) {
       if (returnValue instanceof ReturnValue) {
         return returnValue.value;
@@ -90,6 +132,86 @@ class PashtoPlusPlusFunction {
   }
 }
 
+// A class declared with `tolgay`; calling it creates an instance
+class PashtoPlusPlusClass {
+  name: string;
+  methods: Map<string, PashtoPlusPlusFunction>;
+
+  constructor(name: string, methods: Map<string, PashtoPlusPlusFunction>) {
+    this.name = name;
+    this.methods = methods;
+  }
+
+  async instantiate(interpreter: Interpreter, args: Value[]): Promise<PashtoPlusPlusInstance> {
+    const instance = new PashtoPlusPlusInstance(this);
+    const constructor = this.methods.get('jorawal');
+
+    if (constructor) {
+      await constructor.bind(instance).call(interpreter, args);
+    } else if (args.length > 0) {
+      throw new CallError(`${this.name} has no jorawal method, so it takes no arguments`, DiagnosticCode.ConstructorArguments, { name: this.name });
+    }
+
+    return instance;
+  }
+}
+
+// An object created from a class: its own fields plus the class's methods
+class PashtoPlusPlusInstance {
+  klass: PashtoPlusPlusClass;
+  fields: Map<string, Value> = new Map();
+
+  constructor(klass: PashtoPlusPlusClass) {
+    this.klass = klass;
+  }
+
+  // Fields shadow methods; methods come back bound to this instance
+  get(name: string): Value | undefined {
+    if (this.fields.has(name)) {
+      return this.fields.get(name);
+    }
+
+    const method = this.klass.methods.get(name);
+    if (method) {
+      return method.bind(this);
+    }
+
+    return undefined;
+  }
+}
+
+// An imported module; its exported functions and variables live in their own environment
+class PashtoPlusPlusModule {
+  id: string;
+  exports: Environment;
+
+  constructor(id: string, exports: Environment) {
+    this.id = id;
+    this.exports = exports;
+  }
+}
+
+// A function written in TypeScript; it gets the evaluated arguments and may return a promise
+type BuiltinFunction = (...args: Value[]) => Value | Promise<Value>;
+
+// Any value a Pashto++ program can hold, as built-in functions receive and return it
+type Value =
+  | null
+  | number
+  | string
+  | boolean
+  | Value[]
+  | Map<string, Value>
+  | PashtoPlusPlusFunction
+  | PashtoPlusPlusClass
+  | PashtoPlusPlusInstance
+  | PashtoPlusPlusModule
+  | PashtoPlusPlusError
+  | BuiltinFunction;
+
+// Plain data as JSON.stringify writes it; jsonstringify turns maps and instances into objects
+type PlainJson = null | string | number | boolean | PlainJson[] | { [key: string]: PlainJson };
+
 // Helper class for handling return statements
 class ReturnValue {
   value: any;
@@ -99,17 +221,262 @@ class ReturnValue {
   }
 }
 
+// Categories of errors a Pashto++ program can catch
+export type ErrorKind =
+  | 'TypeError'
+  | 'ZeroDivisionError'
+  | 'NameError'
+  | 'IndexError'
+  | 'KeyError'
+  | 'ThrownError'
+  | 'ImportError'
+  | 'RuntimeError';
+
+// Diagnostic code used for each kind when no more specific code is given
+const ERROR_KIND_CODES: Record<ErrorKind, DiagnosticCode> = {
+  TypeError: DiagnosticCode.TypeError,
+  ZeroDivisionError: DiagnosticCode.ZeroDivisionError,
+  NameError: DiagnosticCode.NameError,
+  IndexError: DiagnosticCode.IndexError,
+  KeyError: DiagnosticCode.KeyError,
+  ThrownError: DiagnosticCode.ThrownError,
+  ImportError: DiagnosticCode.ImportError,
+  RuntimeError: DiagnosticCode.RuntimeError,
+};
+
+// A runtime error that Pashto++ code can catch with koshish/niwal.
+// In a program it reads as a value with `message`, `line` and `kind` fields.
+export class PashtoPlusPlusError extends Error {
+  kind: ErrorKind;
+  detail: string;
+  line: number | null;
+  column: number | null;
+  code: DiagnosticCode;
+  params: DiagnosticParams;
+
+  // `position` is the node that failed (any AST node has a line and column), or null when it isn't known
+  constructor(kind: ErrorKind, detail: string, position: SourcePosition | null, code?: DiagnosticCode, params?: DiagnosticParams) {
+    super(position ? `Line ${position.line}: ${detail}` : detail);
+    this.kind = kind;
+    this.detail = detail;
+    this.line = position?.line ?? null;
+    this.column = position?.column ?? null;
+    this.code = code ?? ERROR_KIND_CODES[kind];
+    this.params = params ?? { detail };
+  }
+
+  // Describe the error as a diagnostic starting at the node that failed
+  toDiagnostic(): Diagnostic {
+    return {
+      code: this.code,
+      severity: 'error',
+      phase: 'runtime',
+      message: this.detail,
+      params: this.params,
+      span: this.line !== null && this.column !== null
+        ? { start: { line: this.line, column: this.column }, end: { line: this.line, column: this.column + 1 } }
+        : null,
+    };
+  }
+}
+
+// Kind of a built-in error for codes that mean the same as an error from an operator, so `e.kind` matches
+// (`intdiv(1, 0)` and `1 / 0` are both a ZeroDivisionError); other built-in errors are RuntimeErrors
+const CALL_ERROR_KINDS: Partial<Record<DiagnosticCode, ErrorKind>> = {
+  [DiagnosticCode.DivisionByZero]: 'ZeroDivisionError',
+  [DiagnosticCode.ModuloByZero]: 'ZeroDivisionError',
+  [DiagnosticCode.IndexOutOfBounds]: 'IndexError',
+  [DiagnosticCode.KeyNotFound]: 'KeyError',
+  [DiagnosticCode.ArgumentType]: 'TypeError',
+  [DiagnosticCode.NotAFunction]: 'TypeError',
+  [DiagnosticCode.NumberItems]: 'TypeError',
+  [DiagnosticCode.SortTypes]: 'TypeError',
+};
+
+// An error from a built-in function or a constructor, with its diagnostic code.
+// evaluateCallExpression turns it into an error of its kind at the line of the call.
+class CallError extends Error {
+  kind: ErrorKind;
+  code: DiagnosticCode;
+  params: DiagnosticParams;
+
+  constructor(message: string, code: DiagnosticCode, params: DiagnosticParams = {}) {
+    super(message);
+    this.kind = CALL_ERROR_KINDS[code] ?? 'RuntimeError';
+    this.code = code;
+    this.params = params;
+  }
+}
+
+// What a built-in function expects as an argument, in English; the catalogs translate the key
+const EXPECTED_ARGUMENTS = {
+  number: 'a number',
+  integer: 'a whole number',
+  string: 'a string',
+  array: 'an array',
+  function: 'a function',
+  sequence: 'a string or an array',
+  collection: 'an array, a map or a string',
+};
+
+type ExpectedArgument = keyof typeof EXPECTED_ARGUMENTS;
+
+// English description of each type name from dawl, for error messages; the catalogs translate the type name
+const TYPE_DESCRIPTIONS: Record<string, string> = {
+  hich: 'null',
+  shmera: 'a number',
+  matn: 'a string',
+  mantiqi: 'a boolean',
+  lest: 'an array',
+  naqsha: 'a map',
+  ghalati: 'an error',
+  tolgay: 'a class',
+  madul: 'a module',
+  opejana: 'a function',
+};
+
+// English name of an argument position, counting from 1
+function ordinal(position: number): string {
+  return ['first', 'second', 'third'][position - 1] ?? `${position}th`;
+}
+
+// Raised when a limit from the options stops the program, or it is cancelled.
+// Unlike other errors, koshish/niwal cannot catch it.
+class ProgramStopped extends PashtoPlusPlusError {
+  constructor(detail: string, position: SourcePosition | null, code: DiagnosticCode, params: DiagnosticParams) {
+    super('RuntimeError', detail, position, code, params);
+  }
+}
+
+// The result of running a program: its output, the diagnostics if it failed, and any warnings
+export interface RunResult {
+  output: string;
+  error?: string; // The first error as English text
+  diagnostics: Diagnostic[];
+}
+
+// Turn anything thrown while running a program into a diagnostic
+export function toDiagnostic(error: unknown): Diagnostic {
+  if (error instanceof DiagnosticError) {
+    return error.diagnostic;
+  }
+  if (error instanceof PashtoPlusPlusError) {
+    return error.toDiagnostic();
+  }
+  const detail = error instanceof Error ? error.message : String(error);
+  return new PashtoPlusPlusError('RuntimeError', detail, null).toDiagnostic();
+}
+
+// Build the result of a program that stopped with an error
+export function failedResult(output: string, error: unknown): RunResult {
+  return {
+    output,
+    error: error instanceof Error ? error.message : String(error),
+    diagnostics: [toDiagnostic(error)],
+  };
+}
+
+// Lex and parse source code, collecting the errors and warnings of both phases in the order they appear in the source
+export function parseSource(code: string): { program: Program; diagnostics: Diagnostic[] } {
+  const lexer = new Lexer(code);
+  const parser = new Parser(lexer.tokenize());
+  const program = parser.parse();
+
+  // The lexer skips characters it can't read, which usually breaks the syntax of the rest of that line;
+  // report only the lexing error there, not the syntax errors that follow from it
+  const position = (diagnostic: Diagnostic) => diagnostic.span?.start ?? { line: Infinity, column: Infinity };
+  const lexedLines = new Set(lexer.diagnostics.filter(diagnostic => diagnostic.severity === 'error').map(diagnostic => position(diagnostic).line));
+  const syntaxErrors = parser.diagnostics.filter(diagnostic => !lexedLines.has(position(diagnostic).line));
+  const diagnostics = [...lexer.diagnostics, ...syntaxErrors].sort((a, b) =>
+    position(a).line - position(b).line || position(a).column - position(b).column
+  );
+  return { program, diagnostics };
+}
+
+// Build the result of a program that has syntax errors and was not run; warnings are listed with the errors
+export function syntaxErrorResult(diagnostics: Diagnostic[]): RunResult {
+  return {
+    output: '',
+    error: formatDiagnostic(diagnostics.find(diagnostic => diagnostic.severity === 'error') ?? diagnostics[0]),
+    diagnostics,
+  };
+}
+
+// Add the warnings found while parsing to the result of running the program, before its own diagnostics
+export function withWarnings(result: RunResult, warnings: Diagnostic[]): RunResult {
+  return warnings.length > 0 ? { ...result, diagnostics: [...warnings, ...result.diagnostics] } : result;
+}
+
+// Options that change how the interpreter behaves
+export interface InterpreterOptions {
+  // Digits used when printing numbers: 'latin' (0-9) or 'pashto' (۰-۹)
+  numerals?: 'latin' | 'pashto';
+  // Loads the files named by `rawra`; without one, imports are an error
+  moduleResolver?: ModuleResolver;
+  // Module id of the main program, used to resolve its relative imports
+  modulePath?: string | null;
+  // When true, assigning to a name that was never declared with badal/sabit is an error
+  strict?: boolean;
+  // Seed for the random functions; the same seed gives the same numbers on every run
+  seed?: number;
+  // Called with each line of output as soon as it is printed, before the program finishes
+  onOutput?: (line: string) => void;
+  // Stop the program after this many steps (statements and loop rounds)
+  maxSteps?: number;
+  // Stop the program when function calls are nested deeper than this
+  maxCallDepth?: number;
+  // Stop the program after it has run for this many milliseconds
+  timeout?: number;
+  // Stop the program when this signal is aborted
+  signal?: AbortSignal;
+}
+
+// With a signal, the interpreter lets other tasks run after this many steps, so an abort can arrive
+const YIELD_INTERVAL = 1000;
+
+// Asks the user for a line of input; receives the prompt passed to oghwara
+export type InputCallback = (prompt: string) => Promise<string>;
+
+// Mulberry32: a small seedable generator returning numbers in [0, 1)
+function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Signals thrown by break and continue statements, caught by the loop executors
+class BreakSignal {}
+class ContinueSignal {}
+
 // The main interpreter class
 export class Interpreter {
   private environment: Environment;
   private globals: Environment;
   private output: string[] = [];
-  private inputCallback: () => Promise<string>;
-
-  constructor(inputCallback: () => Promise<string>) {
+  private inputCallback: InputCallback;
+  private options: InterpreterOptions;
+  private modules: Map<string, PashtoPlusPlusModule> = new Map(); // Evaluated modules by id
+  private moduleStack: string[] = []; // Modules currently being loaded, for cycle detection
+  private currentModule: string | null;
+  private currentExports: Set<string> = new Set();
+  private random: () => number;
+  private steps: number = 0; // Steps run so far, for maxSteps
+  private callDepth: number = 0; // User-defined function calls currently running, for maxCallDepth
+  private deadline: number | null = null; // Time by which the program must finish, for timeout
+  private currentPosition: SourcePosition | null = null; // Position of the statement being run
+
+  constructor(inputCallback: InputCallback, options: InterpreterOptions = {}) {
     this.globals = new Environment();
     this.environment = this.globals;
     this.inputCallback = inputCallback;
+    this.options = options;
+    this.currentModule = options.modulePath ?? null;
+    this.random = options.seed === undefined ? Math.random : createSeededRandom(options.seed);
 
     // Define built-in functions
     this.defineBuiltins();
@@ -119,19 +486,30 @@ export class Interpreter {
     // olika (print) function
     this.globals.define('olika', (...args: any[]) => {
       const output = args.map(arg => this.stringify(arg)).join(' ');
-      this.output.push(output);
+      this.print(output);
       return null;
     });
 
-    // oghwara (input) function
-    this.globals.define('oghwara', async (prompt: string) => {
-      this.output.push(prompt); // Show the prompt
-      const input = await this.inputCallback();
-      return input;
+    // oghwara (input) function: waits for the answer before the program goes on
+    this.globals.define('oghwara', async (prompt: Value = '') => {
+      const text = typeof prompt === 'string' ? prompt : this.stringify(prompt);
+      if (text !== '') {
+        this.print(text); // Show the prompt
+      }
+
+      // Time spent waiting for the answer doesn't count towards the timeout
+      const waitStart = Date.now();
+      const answer = await this.waitForInput(text);
+      if (this.deadline !== null) {
+        this.deadline += Date.now() - waitStart;
+      }
+      return answer;
     });
 
     // jorkanumbers (range) function
-    this.globals.define('jorkanumbers', (start: number, end: number) => {
+    this.globals.define('jorkanumbers', (start: Value, end: Value) => {
+      this.checkNumber('jorkanumbers', start, 1);
+      this.checkNumber('jorkanumbers', end, 2);
       const result = [];
       for (let i = start; i < end; i++) {
         result.push(i);
@@ -140,103 +518,771 @@ export class Interpreter {
     });
 
     // oshmara (length) function
-    this.globals.define('oshmara', (array: any[]) => {
-      if (!Array.isArray(array)) {
-        throw new Error('oshmara expects an array');
+    this.globals.define('oshmara', (collection: Value) => {
+      if (collection instanceof Map) {
+        return collection.size;
       }
-      return array.length;
+      if (!Array.isArray(collection) && typeof collection !== 'string') {
+        throw this.argumentError('oshmara', 1, 'collection');
+      }
+      return collection.length;
     });
 
     // max function
-    this.globals.define('max', (...args: number[]) => {
+    this.globals.define('max', (...args: Value[]) => {
       if (args.length === 0) {
-        throw new Error('max requires at least one argument');
+        throw new CallError('max needs at least one argument', DiagnosticCode.MissingArgument, { function: 'max' });
       }
-      return Math.max(...args);
+      args.forEach((arg, i) => this.checkNumber('max', arg, i + 1));
+      return Math.max(...args as number[]);
     });
 
     // min function
-    this.globals.define('min', (...args: number[]) => {
+    this.globals.define('min', (...args: Value[]) => {
       if (args.length === 0) {
-        throw new Error('min requires at least one argument');
+        throw new CallError('min needs at least one argument', DiagnosticCode.MissingArgument, { function: 'min' });
+      }
+      args.forEach((arg, i) => this.checkNumber('min', arg, i + 1));
+      return Math.min(...args as number[]);
+    });
+
+    // map function: applies a function to every element
+    this.globals.define('map', async (array: Value, fn: Value) => {
+      this.checkHigherOrderArgs('map', array, fn);
+      const result = [];
+      for (const item of array) {
+        result.push(await this.callFunction(fn, [item]));
+      }
+      return result;
+    });
+
+    // filter function: keeps the elements for which the function is truthy
+    this.globals.define('filter', async (array: Value, fn: Value) => {
+      this.checkHigherOrderArgs('filter', array, fn);
+      const result = [];
+      for (const item of array) {
+        if (this.isTruthy(await this.callFunction(fn, [item]))) {
+          result.push(item);
+        }
+      }
+      return result;
+    });
+
+    // reduce function: folds the elements into one value, starting from `initial`, or from the first element
+    // when no initial value is given
+    this.globals.define('reduce', async (array: Value, fn: Value, initial?: Value) => {
+      this.checkHigherOrderArgs('reduce', array, fn);
+      if (initial === undefined && array.length === 0) {
+        throw new CallError('reduce cannot take from an empty array', DiagnosticCode.EmptyArray, { function: 'reduce' });
+      }
+      let accumulator = initial === undefined ? array[0] : initial;
+      for (const item of initial === undefined ? array.slice(1) : array) {
+        accumulator = await this.callFunction(fn, [accumulator, item]);
+      }
+      return accumulator;
+    });
+
+    // sort function: returns a sorted copy, optionally ordered by a comparator
+    this.globals.define('sort', async (array: Value, comparator?: Value) => {
+      if (!Array.isArray(array)) {
+        throw this.argumentError('sort', 1, 'array');
       }
-      return Math.min(...args);
+      if (comparator === undefined) {
+        return this.sortValues(array, async (a, b) => this.compareValues(a, b));
+      }
+      if (!this.isCallable(comparator)) {
+        throw this.argumentError('sort', 2, 'function');
+      }
+      return this.sortValues(array, async (a, b) => {
+        const order = await this.callFunction(comparator, [a, b]);
+        if (typeof order !== 'number') {
+          throw new CallError('The function given to sort must return a number', DiagnosticCode.ComparatorResult, { function: 'sort' });
+        }
+        return order;
+      });
     });
 
     // abs function
-    this.globals.define('abs', (num: number) => {
+    this.globals.define('abs', (num: Value) => {
       if (typeof num !== 'number') {
-        throw new Error('abs requires a number argument');
+        throw this.argumentError('abs', 1, 'number');
       }
       return Math.abs(num);
     });
+
+    this.defineStringBuiltins();
+    this.defineMathBuiltins();
+    this.defineRandomBuiltins();
+    this.defineArrayBuiltins();
+    this.defineTypeBuiltins();
+    this.defineJsonBuiltins();
+  }
+
+  // JSON functions: objects are read as maps, and true/false as rishtia/ghalat
+  private defineJsonBuiltins(): void {
+    // jsonparse function: reads JSON text into Pashto++ values
+    this.globals.define('jsonparse', (text: Value) => {
+      this.checkString('jsonparse', text, 1);
+      try {
+        return new JsonParser(text).parse();
+      } catch (error) {
+        if (error instanceof JsonSyntaxError) {
+          const { line, column, found } = error;
+          throw new CallError(error.message, DiagnosticCode.InvalidJson, { line, column, found: found ?? '', foundType: found === null ? 'EOF' : 'CHAR' });
+        }
+        throw error;
+      }
+    });
+
+    // jsonstringify function: writes a value as JSON, indented by an optional number of spaces
+    this.globals.define('jsonstringify', (value: Value, indent: Value = 0) => {
+      if (typeof indent !== 'number' || !Number.isInteger(indent) || indent < 0 || indent > 10) {
+        throw this.rangeError('jsonstringify', 2, 0, 10);
+      }
+      return JSON.stringify(this.toJsonValue(value, new Set()), null, indent);
+    });
+  }
+
+  // Convert a Pashto++ value into plain data that JSON.stringify can write
+  private toJsonValue(value: Value, seen: Set<Value>): PlainJson {
+    if (value === null || typeof value === 'string' || typeof value === 'boolean') {
+      return value;
+    }
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) {
+        throw new CallError(`Cannot write ${value} as JSON`, DiagnosticCode.JsonUnsupported, { value: this.stringify(value) });
+      }
+      return value;
+    }
+
+    const isContainer = Array.isArray(value) || value instanceof Map || value instanceof PashtoPlusPlusInstance;
+    if (!isContainer) {
+      throw new CallError(`Cannot write ${this.stringify(value)} as JSON`, DiagnosticCode.JsonUnsupported, { value: this.stringify(value) });
+    }
+    if (seen.has(value)) {
+      throw new CallError('Cannot write a value that contains itself as JSON', DiagnosticCode.JsonCircular);
+    }
+
+    seen.add(value);
+    let result: PlainJson;
+    if (Array.isArray(value)) {
+      result = value.map(item => this.toJsonValue(item, seen));
+    } else {
+      const entries = value instanceof Map ? value.entries() : value.fields.entries();
+      const object: { [key: string]: PlainJson } = Object.create(null);
+      for (const [key, item] of entries) {
+        object[key] = this.toJsonValue(item, seen);
+      }
+      result = object;
+    }
+    seen.delete(value);
+    return result;
+  }
+
+  // Type names and conversions, so that input from oghwara can be used as a number
+  private defineTypeBuiltins(): void {
+    // dawl (type of) function: the Pashto name of a value's type
+    this.globals.define('dawl', (value: Value) => this.typeName(value));
+
+    // shmera (to number) function: accepts Latin or Pashto digits
+    this.globals.define('shmera', (value: Value) => {
+      if (typeof value === 'number') {
+        return value;
+      }
+      if (typeof value === 'boolean') {
+        return value ? 1 : 0;
+      }
+      if (typeof value === 'string') {
+        const result = this.parseNumber(value);
+        if (result === null) {
+          throw new CallError(`Cannot convert "${value}" to a number`, DiagnosticCode.NumberConversion, { value });
+        }
+        return result;
+      }
+      throw new CallError(`Cannot convert ${this.stringify(value)} to a number`, DiagnosticCode.NumberConversion, { value: this.stringify(value) });
+    });
+
+    // matn (to string) function
+    this.globals.define('matn', (value: Value) => {
+      return typeof value === 'string' ? value : this.stringify(value);
+    });
+
+    // mantiqi (to boolean) function: the text "rishtia" or "ghalat", or any value's truthiness
+    this.globals.define('mantiqi', (value: Value) => {
+      if (typeof value === 'string') {
+        const word = value.trim();
+        const keyword = PASHTO_KEYWORDS.get(word) ?? word.toLowerCase();
+        if (keyword === 'rishtia' || keyword === 'ghalat') {
+          return keyword === 'rishtia';
+        }
+        throw new CallError(`Cannot convert "${value}" to a boolean; use "rishtia" or "ghalat"`, DiagnosticCode.BooleanConversion, { value });
+      }
+      return this.isTruthy(value);
+    });
+
+    // shmerada (is number) function: whether a value is a number or text that shmera can convert
+    this.globals.define('shmerada', (value: Value) => {
+      if (typeof value === 'number') {
+        return true;
+      }
+      return typeof value === 'string' && this.parseNumber(value) !== null;
+    });
+  }
+
+  // Pashto type names returned by dawl
+  private typeName(value: unknown): string {
+    if (value === null) return 'hich';
+    if (typeof value === 'number') return 'shmera';
+    if (typeof value === 'string') return 'matn';
+    if (typeof value === 'boolean') return 'mantiqi';
+    if (Array.isArray(value)) return 'lest';
+    if (value instanceof Map) return 'naqsha';
+    if (value instanceof PashtoPlusPlusError) return 'ghalati';
+    if (value instanceof PashtoPlusPlusClass) return 'tolgay';
+    if (value instanceof PashtoPlusPlusInstance) return value.klass.name;
+    if (value instanceof PashtoPlusPlusModule) return 'madul';
+    if (this.isCallable(value)) return 'opejana';
+    return typeof value;
+  }
+
+  // Describe the type of a value in English, e.g. "an array"; instances are described by their class name
+  private describeType(value: unknown): string {
+    const name = this.typeName(value);
+    return TYPE_DESCRIPTIONS[name] ?? name;
+  }
+
+  // Parse a whole or decimal number written with Latin or Pashto digits, or null if it isn't one
+  private parseNumber(text: string): number | null {
+    const normalized = toLatinNumber(text.trim());
+    if (!/^[+-]?(\d+(\.\d*)?|\.\d+)$/.test(normalized)) {
+      return null;
+    }
+    return Number(normalized);
+  }
+
+  // Array functions, named in Pashto. zyatkra, wubasa, nanakra and lirkra change the
+  // array itself; the others return a new value. larey, ziay and tota also take arrays.
+  private defineArrayBuiltins(): void {
+    // zyatkra (push) function: adds values to the end and returns the new length
+    this.globals.define('zyatkra', (array: Value, ...values: Value[]) => {
+      this.checkArray('zyatkra', array, 1);
+      if (values.length === 0) {
+        throw new CallError('zyatkra needs at least one value to add', DiagnosticCode.MissingArgument, { function: 'zyatkra' });
+      }
+      return array.push(...values);
+    });
+
+    // wubasa (pop) function: removes and returns the last element
+    this.globals.define('wubasa', (array: Value) => {
+      this.checkArray('wubasa', array, 1);
+      if (array.length === 0) {
+        throw new CallError('wubasa cannot take from an empty array', DiagnosticCode.EmptyArray, { function: 'wubasa' });
+      }
+      return array.pop() ?? null;
+    });
+
+    // nanakra (insert) function: puts a value before the given index
+    this.globals.define('nanakra', (array: Value, index: Value, value: Value) => {
+      this.checkArray('nanakra', array, 1);
+      if (typeof index !== 'number' || !Number.isInteger(index) || index < 0 || index > array.length) {
+        throw this.rangeError('nanakra', 2, 0, array.length);
+      }
+      array.splice(index, 0, value);
+      return null;
+    });
+
+    // lirkra (remove) function: removes and returns the element at the given index
+    this.globals.define('lirkra', (array: Value, index: Value) => {
+      this.checkArray('lirkra', array, 1);
+      if (typeof index !== 'number' || !Number.isInteger(index)) {
+        throw this.argumentError('lirkra', 2, 'integer');
+      }
+      if (index < 0 || index >= array.length) {
+        throw new CallError(`Index ${index} is out of bounds (length ${array.length})`, DiagnosticCode.IndexOutOfBounds, { index, length: array.length });
+      }
+      return array.splice(index, 1)[0];
+    });
+
+    // gadawa (concat) function: joins arrays into a new one
+    this.globals.define('gadawa', (...arrays: Value[]) => {
+      const result: Value[] = [];
+      arrays.forEach((array, i) => {
+        this.checkArray('gadawa', array, i + 1);
+        result.push(...array);
+      });
+      return result;
+    });
+
+    // apota (reverse) function: returns a reversed copy
+    this.globals.define('apota', (array: Value) => {
+      this.checkArray('apota', array, 1);
+      return array.slice().reverse();
+    });
+
+    // tartib (sort) function: the Pashto name of sort
+    this.globals.define('tartib', this.globals.get('sort'));
+
+    // tol (sum) function: adds up an array of numbers
+    this.globals.define('tol', (array: Value) => {
+      this.checkArray('tol', array, 1);
+      return array.reduce((total: number, item: Value) => {
+        if (typeof item !== 'number') {
+          throw new CallError(`tol can only add numbers, got ${this.stringify(item)}`, DiagnosticCode.NumberItems, { function: 'tol', value: this.stringify(item) });
+        }
+        return total + item;
+      }, 0);
+    });
+  }
+
+  // Validate an array argument of a built-in function
+  private checkArray(name: string, value: unknown, position: number): asserts value is Value[] {
+    if (!Array.isArray(value)) {
+      throw this.argumentError(name, position, 'array');
+    }
+  }
+
+  // Random functions, drawing from the seeded generator when a seed is given
+  private defineRandomBuiltins(): void {
+    // random function: a number from 0 up to, but not including, 1
+    this.globals.define('random', () => this.random());
+
+    // randint function: a whole number from `low` to `high`, both included
+    this.globals.define('randint', (low: Value, high: Value) => {
+      this.checkInteger('randint', low, 1);
+      this.checkInteger('randint', high, 2);
+      if (low > high) {
+        throw this.orderError('randint', 1, 2);
+      }
+      return low + Math.floor(this.random() * (high - low + 1));
+    });
+
+    // choice function: one element of an array, picked at random
+    this.globals.define('choice', (array: Value) => {
+      if (!Array.isArray(array)) {
+        throw this.argumentError('choice', 1, 'array');
+      }
+      if (array.length === 0) {
+        throw new CallError('choice cannot take from an empty array', DiagnosticCode.EmptyArray, { function: 'choice' });
+      }
+      return array[Math.floor(this.random() * array.length)];
+    });
+
+    // shuffle function: returns a shuffled copy (Fisher-Yates)
+    this.globals.define('shuffle', (array: Value) => {
+      if (!Array.isArray(array)) {
+        throw this.argumentError('shuffle', 1, 'array');
+      }
+      const result = array.slice();
+      for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(this.random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+      }
+      return result;
+    });
+  }
+
+  // Validate a whole-number argument of a built-in function
+  private checkInteger(name: string, value: unknown, position: number): asserts value is number {
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      throw this.argumentError(name, position, 'integer');
+    }
+  }
+
+  // Math functions and constants
+  private defineMathBuiltins(): void {
+    this.globals.define('PI', Math.PI, true);
+    this.globals.define('E', Math.E, true);
+
+    // sqrt (square root) function
+    this.globals.define('sqrt', (num: Value) => {
+      this.checkNumber('sqrt', num, 1);
+      if (num < 0) {
+        throw this.mathError(`sqrt(${this.stringify(num)})`);
+      }
+      return Math.sqrt(num);
+    });
+
+    // pow (power) function, the same as `**`
+    this.globals.define('pow', (base: Value, exponent: Value) => {
+      this.checkNumber('pow', base, 1);
+      this.checkNumber('pow', exponent, 2);
+      const result = base ** exponent;
+      if (Number.isNaN(result)) {
+        throw this.mathError(`pow(${this.stringify(base)}, ${this.stringify(exponent)})`);
+      }
+      return result;
+    });
+
+    // Rounding functions
+    this.globals.define('floor', (num: Value) => {
+      this.checkNumber('floor', num, 1);
+      return Math.floor(num);
+    });
+    this.globals.define('ceil', (num: Value) => {
+      this.checkNumber('ceil', num, 1);
+      return Math.ceil(num);
+    });
+
+    // round function: to a whole number, or to a number of decimal places
+    this.globals.define('round', (num: Value, digits: Value = 0) => {
+      this.checkNumber('round', num, 1);
+      if (typeof digits !== 'number' || !Number.isInteger(digits) || digits < 0) {
+        throw this.argumentError('round', 2, 'integer');
+      }
+      const factor = 10 ** digits;
+      return Math.round(num * factor) / factor;
+    });
+
+    // Trigonometry, in radians
+    for (const name of ['sin', 'cos', 'tan', 'asin', 'acos', 'atan'] as const) {
+      this.globals.define(name, (num: Value) => {
+        this.checkNumber(name, num, 1);
+        const result = Math[name](num);
+        if (Number.isNaN(result)) {
+          throw this.mathError(`${name}(${this.stringify(num)})`);
+        }
+        return result;
+      });
+    }
+
+    // log function: natural logarithm, or in the given base
+    this.globals.define('log', (num: Value, base?: Value) => {
+      this.checkNumber('log', num, 1);
+      if (num <= 0) {
+        throw this.mathError(`log(${this.stringify(num)})`);
+      }
+      if (base === undefined) {
+        return Math.log(num);
+      }
+      this.checkNumber('log', base, 2);
+      if (base <= 0 || base === 1) {
+        throw this.mathError(`log(${this.stringify(num)}, ${this.stringify(base)})`);
+      }
+      return Math.log(num) / Math.log(base);
+    });
+
+    // intdiv (integer division) function: the whole part of a / b, rounded down
+    this.globals.define('intdiv', (a: Value, b: Value) => {
+      this.checkNumber('intdiv', a, 1);
+      this.checkNumber('intdiv', b, 2);
+      if (b === 0) {
+        throw new CallError('Division by zero', DiagnosticCode.DivisionByZero);
+      }
+      return Math.floor(a / b);
+    });
+
+    // isint (is integer) function
+    this.globals.define('isint', (value: Value) => {
+      return typeof value === 'number' && Number.isInteger(value);
+    });
+  }
+
+  // Validate a number argument of a built-in function
+  private checkNumber(name: string, value: unknown, position: number): asserts value is number {
+    if (typeof value !== 'number') {
+      throw this.argumentError(name, position, 'number');
+    }
+  }
+
+  // String functions, named in Pashto
+  private defineStringBuiltins(): void {
+    // loyturi (upper case) function
+    this.globals.define('loyturi', (text: Value) => {
+      this.checkString('loyturi', text, 1);
+      return text.toUpperCase();
+    });
+
+    // warokturi (lower case) function
+    this.globals.define('warokturi', (text: Value) => {
+      this.checkString('warokturi', text, 1);
+      return text.toLowerCase();
+    });
+
+    // pakawa (trim) function: removes spaces from both ends
+    this.globals.define('pakawa', (text: Value) => {
+      this.checkString('pakawa', text, 1);
+      return text.trim();
+    });
+
+    // wesha (split) function: an empty separator splits into single letters
+    this.globals.define('wesha', (text: Value, separator: Value) => {
+      this.checkString('wesha', text, 1);
+      this.checkString('wesha', separator, 2);
+      return separator === '' ? Array.from(text) : text.split(separator);
+    });
+
+    // yuzay (join) function: joins array elements with a separator
+    this.globals.define('yuzay', (array: Value, separator: Value = '') => {
+      if (!Array.isArray(array)) {
+        throw this.argumentError('yuzay', 1, 'array');
+      }
+      this.checkString('yuzay', separator, 2);
+      return array.map(item => (typeof item === 'string' ? item : this.stringify(item))).join(separator);
+    });
+
+    // badalawa (replace) function: replaces every occurrence
+    this.globals.define('badalawa', (text: Value, search: Value, replacement: Value) => {
+      this.checkString('badalawa', text, 1);
+      this.checkString('badalawa', search, 2);
+      this.checkString('badalawa', replacement, 3);
+      if (search === '') {
+        throw new CallError('badalawa cannot search for an empty string', DiagnosticCode.EmptySearch, { function: 'badalawa' });
+      }
+      return text.split(search).join(replacement);
+    });
+
+    // larey (contains) function, for a part of a string or an element of an array
+    this.globals.define('larey', (collection: Value, part: Value) => {
+      if (Array.isArray(collection)) {
+        return collection.includes(part);
+      }
+      this.checkString('larey', collection, 1);
+      this.checkString('larey', part, 2);
+      return collection.includes(part);
+    });
+
+    // ziay (index of) function, for strings and arrays: -1 when the part is not found
+    this.globals.define('ziay', (collection: Value, part: Value) => {
+      if (Array.isArray(collection)) {
+        return collection.indexOf(part);
+      }
+      this.checkString('ziay', collection, 1);
+      this.checkString('ziay', part, 2);
+      return collection.indexOf(part);
+    });
+
+    // tota (substring or slice) function: from `start` up to, but not including, `end`
+    this.globals.define('tota', (collection: Value, start: Value, end?: Value) => {
+      if (!Array.isArray(collection) && typeof collection !== 'string') {
+        throw this.argumentError('tota', 1, 'sequence');
+      }
+      const last = end === undefined ? collection.length : end;
+      this.checkSliceBound(collection.length, start, 2);
+      this.checkSliceBound(collection.length, last, 3);
+      if (start > last) {
+        throw this.orderError('tota', 2, 3);
+      }
+      return collection.slice(start, last);
+    });
+
+    // bna (format) function: fills {0}, {1}, ... with the following arguments
+    this.globals.define('bna', (template: Value, ...args: Value[]) => {
+      this.checkString('bna', template, 1);
+      return template.replace(/\{(\d+)\}/g, (_placeholder: string, index: string) => {
+        if (Number(index) >= args.length) {
+          throw new CallError(`bna has no value for {${index}}`, DiagnosticCode.FormatValueMissing, { index: Number(index) });
+        }
+        const value = args[Number(index)];
+        return typeof value === 'string' ? value : this.stringify(value);
+      });
+    });
+  }
+
+  // Validate a string argument of a built-in function
+  private checkString(name: string, value: unknown, position: number): asserts value is string {
+    if (typeof value !== 'string') {
+      throw this.argumentError(name, position, 'string');
+    }
+  }
+
+  // Validate the start or end of tota: a whole number from 0 to the length
+  private checkSliceBound(length: number, value: unknown, position: number): asserts value is number {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > length) {
+      throw this.rangeError('tota', position, 0, length);
+    }
+  }
+
+  // A built-in function was given the wrong kind of argument
+  private argumentError(name: string, position: number, expected: ExpectedArgument): CallError {
+    return new CallError(
+      `${name} expects ${EXPECTED_ARGUMENTS[expected]} as its ${ordinal(position)} argument`,
+      DiagnosticCode.ArgumentType, { function: name, position, expected }
+    );
+  }
+
+  // A built-in function was given a number outside the range it accepts
+  private rangeError(name: string, position: number, min: number, max: number): CallError {
+    return new CallError(
+      `${name} expects a whole number from ${min} to ${max} as its ${ordinal(position)} argument`,
+      DiagnosticCode.ArgumentRange, { function: name, position, min, max }
+    );
+  }
+
+  // A built-in function was given a start that comes after its end
+  private orderError(name: string, low: number, high: number): CallError {
+    return new CallError(
+      `${name} expects its ${ordinal(low)} argument to be at most its ${ordinal(high)}`,
+      DiagnosticCode.ArgumentOrder, { function: name, low, high }
+    );
+  }
+
+  // A math function has no result for these arguments, like sqrt(-1)
+  private mathError(expression: string): CallError {
+    return new CallError(`${expression} is not defined`, DiagnosticCode.MathDomain, { expression });
+  }
+
+  // Add a line to the program's output
+  private print(line: string): void {
+    this.output.push(line);
+    this.options.onOutput?.(line);
+  }
+
+  // Validate the arguments of map, filter and reduce
+  private checkHigherOrderArgs(name: string, array: Value, fn: Value): asserts array is Value[] {
+    if (!Array.isArray(array)) {
+      throw this.argumentError(name, 1, 'array');
+    }
+    if (!this.isCallable(fn)) {
+      throw this.argumentError(name, 2, 'function');
+    }
+  }
+
+  // Default ordering for sort: numbers with numbers, strings with strings
+  private compareValues(a: Value, b: Value): number {
+    if (typeof a === 'number' && typeof b === 'number') {
+      return a - b;
+    }
+    if (typeof a === 'string' && typeof b === 'string') {
+      return a < b ? -1 : a > b ? 1 : 0;
+    }
+    throw new CallError(`Cannot compare ${this.describeType(a)} and ${this.describeType(b)} when sorting`, DiagnosticCode.SortTypes, { left: this.typeName(a), right: this.typeName(b) });
+  }
+
+  // Stable merge sort that allows the comparator to call user functions
+  private async sortValues(array: Value[], compare: (a: Value, b: Value) => Promise<number>): Promise<Value[]> {
+    if (array.length <= 1) {
+      return array.slice();
+    }
+
+    const middle = Math.floor(array.length / 2);
+    const left = await this.sortValues(array.slice(0, middle), compare);
+    const right = await this.sortValues(array.slice(middle), compare);
+
+    const result = [];
+    let i = 0;
+    let j = 0;
+    while (i < left.length && j < right.length) {
+      if (await compare(left[i], right[j]) <= 0) {
+        result.push(left[i++]);
+      } else {
+        result.push(right[j++]);
+      }
+    }
+    return result.concat(left.slice(i), right.slice(j));
   }
 
   // Convert values to string for output
   private stringify(value: any): string {
     if (value === null) return 'null';
+    if (value instanceof PashtoPlusPlusError) {
+      return `${value.kind}: ${value.detail}`;
+    }
+    if (value instanceof PashtoPlusPlusClass) {
+      return `<tolgay ${value.name}>`;
+    }
+    if (value instanceof PashtoPlusPlusInstance) {
+      const fields = Array.from(value.fields.entries()).map(([key, v]) => `${key}: ${this.stringify(v)}`);
+      return `${value.klass.name} {${fields.join(', ')}}`;
+    }
+    if (value instanceof PashtoPlusPlusModule) {
+      return `<module ${value.id}>`;
+    }
+    if (value instanceof PashtoPlusPlusFunction) {
+      return value.name ? `<opejana ${value.name}>` : '<opejana>';
+    }
+    if (typeof value === 'function') {
+      return '<opejana>';
+    }
+    if (typeof value === 'number' && this.options.numerals === 'pashto') {
+      return String(value)
+        .replace(/[0-9]/g, digit => String.fromCharCode(0x06F0 + Number(digit)))
+        .replace('.', '\u066B');
+    }
     if (typeof value === 'boolean') {
       return value ? 'rishtia' : 'ghalat';
     }
     if (Array.isArray(value)) {
       return '[' + value.map(v => this.stringify(v)).join(', ') + ']';
     }
+    if (value instanceof Map) {
+      const entries = Array.from(value.entries()).map(([key, v]) => `${key}: ${this.stringify(v)}`);
+      return '{' + entries.join(', ') + '}';
+    }
     return String(value);
   }
 
   // Main interpretation method
-  public async interpret(program: Program): Promise<{ output: string, error?: string }> {
+  public async interpret(program: Program): Promise<RunResult> {
     try {
       this.output = [];
+      this.steps = 0;
+      // The main program counts as a module being loaded, so a module importing it is a cycle
+      this.moduleStack = this.options.modulePath ? [this.options.modulePath] : [];
+      this.deadline = this.options.timeout !== undefined ? Date.now() + this.options.timeout : null;
       await this.execute(program);
-      return { output: this.output.join('\n') };
+      return { output: this.output.join('\n'), diagnostics: [] };
     } catch (error) {
-      if (error instanceof Error) {
-        return { output: this.output.join('\n'), error: error.message };
-      }
-      return { output: this.output.join('\n'), error: String(error) };
+      return failedResult(this.output.join('\n'), error);
     }
   }
 
   // Execute a node in the AST
   private async execute(node: Node): Promise<any> {
+    await this.step(node);
+
     switch (node.type) {
       case NodeType.Program:
         return await this.executeProgram(node as Program);
       case NodeType.BlockStatement:
-        return this.executeBlock((node as BlockStatement).body, new Environment(this.environment));
+        return await this.executeBlock((node as BlockStatement).body, new Environment(this.environment));
       case NodeType.ExpressionStatement:
         return await this.evaluate((node as ExpressionStatement).expression);
       case NodeType.IfStatement:
         return await this.executeIfStatement(node as IfStatement);
+      case NodeType.MatchStatement:
+        return await this.executeMatchStatement(node as MatchStatement);
       case NodeType.WhileStatement:
         return await this.executeWhileStatement(node as WhileStatement);
       case NodeType.ForStatement:
         return await this.executeForStatement(node as ForStatement);
       case NodeType.ReturnStatement:
-        return this.executeReturnStatement(node as ReturnStatement);
+        return await this.executeReturnStatement(node as ReturnStatement);
+      case NodeType.TryStatement:
+        return await this.executeTryStatement(node as TryStatement);
+      case NodeType.ThrowStatement:
+        return await this.executeThrowStatement(node as ThrowStatement);
+      case NodeType.ImportStatement:
+        return await this.executeImportStatement(node as ImportStatement);
+      case NodeType.ExportDeclaration:
+        return await this.executeExportDeclaration(node as ExportDeclaration);
+      case NodeType.BreakStatement:
+        throw new BreakSignal();
+      case NodeType.ContinueStatement:
+        throw new ContinueSignal();
+      case NodeType.VariableDeclaration:
+        return await this.executeVariableDeclaration(node as VariableDeclaration);
       case NodeType.FunctionDeclaration:
         return this.executeFunctionDeclaration(node as FunctionDeclaration);
+      case NodeType.ClassDeclaration:
+        return this.executeClassDeclaration(node as ClassDeclaration);
       default:
         throw new Error(`Unknown node type: ${node.type}`);
     }
   }
 
-  // Execute a program (top-level node)
+  // Execute a program (top-level node), in its own scope so declarations can shadow built-ins
   private async executeProgram(program: Program): Promise<void> {
-    for (const statement of program.body) {
-      await this.execute(statement);
-    }
+    await this.executeBlock(program.body, new Environment(this.globals));
   }
 
   // Execute a block of statements
-  public executeBlock(statements: Statement[], environment: Environment): void {
+  public async executeBlock(statements: Statement[], environment: Environment): Promise<void> {
     const previous = this.environment;
     try {
       this.environment = environment;
 
       for (const statement of statements) {
-        this.execute(statement);
+        await this.execute(statement);
       }
     } finally {
       this.environment = previous;
@@ -254,19 +1300,58 @@ export class Interpreter {
     }
   }
 
+  // Execute a match statement: the first case with a matching pattern runs, otherwise the default
+  private async executeMatchStatement(stmt: MatchStatement): Promise<void> {
+    const value = await this.evaluate(stmt.discriminant);
+
+    for (const matchCase of stmt.cases) {
+      for (const pattern of matchCase.patterns) {
+        if (await this.matchesPattern(value, pattern)) {
+          await this.execute(matchCase.body);
+          return;
+        }
+      }
+    }
+
+    if (stmt.defaultCase) {
+      await this.execute(stmt.defaultCase);
+    }
+  }
+
+  // Check a value against one case pattern; ranges include both ends
+  private async matchesPattern(value: Value, pattern: MatchPattern): Promise<boolean> {
+    if (pattern.kind === 'value') {
+      return value === await this.evaluate(pattern.value);
+    }
+
+    const from = await this.evaluate(pattern.from);
+    const to = await this.evaluate(pattern.to);
+    if (typeof from !== 'number' || typeof to !== 'number') {
+      throw new PashtoPlusPlusError('TypeError', `Range bounds must be numbers, got ${this.describeType(from)} and ${this.describeType(to)}`, pattern.from, DiagnosticCode.RangeBounds, { from: this.typeName(from), to: this.typeName(to) });
+    }
+    return typeof value === 'number' && value >= from && value <= to;
+  }
+
   // Execute a while statement
   private async executeWhileStatement(stmt: WhileStatement): Promise<void> {
     while (this.isTruthy(await this.evaluate(stmt.test))) {
-      await this.execute(stmt.body);
+      if (await this.executeLoopBody(stmt.body) === 'break') {
+        break;
+      }
     }
   }
 
   // Execute a for statement
   private async executeForStatement(stmt: ForStatement): Promise<void> {
-    const iterable = await this.evaluate(stmt.iterable);
+    let iterable = await this.evaluate(stmt.iterable);
+
+    // Maps are iterated over their keys
+    if (iterable instanceof Map) {
+      iterable = Array.from(iterable.keys());
+    }
 
     if (!Array.isArray(iterable)) {
-      throw new Error('For loop iterable must be an array');
+      throw new PashtoPlusPlusError('TypeError', `Cannot loop over ${this.stringify(iterable)}; use an array or a map`, stmt, DiagnosticCode.NotIterable, { type: this.typeName(iterable) });
     }
 
     const previous = this.environment;
@@ -275,29 +1360,232 @@ export class Interpreter {
 
       for (const value of iterable) {
         this.environment.define(stmt.variable, value);
-        await this.execute(stmt.body);
+        if (await this.executeLoopBody(stmt.body) === 'break') {
+          break;
+        }
       }
     } finally {
       this.environment = previous;
     }
   }
 
+  // Execute one iteration of a loop body, reporting whether it ended with a break
+  private async executeLoopBody(body: BlockStatement): Promise<'break' | 'next'> {
+    try {
+      await this.execute(body);
+    } catch (signal) {
+      if (signal instanceof BreakSignal) {
+        return 'break';
+      }
+      if (!(signal instanceof ContinueSignal)) {
+        throw signal;
+      }
+    }
+    return 'next';
+  }
+
+  // Execute an import statement
+  private async executeImportStatement(stmt: ImportStatement): Promise<void> {
+    const imported = await this.loadModule(stmt.source, stmt);
+
+    if (stmt.alias) {
+      this.defineImport(stmt.alias, imported, false, stmt);
+      return;
+    }
+
+    for (const name of imported.exports.names()) {
+      this.defineImport(name, imported.exports.get(name), imported.exports.isConstant(name), stmt);
+    }
+  }
+
+  // Bind an imported name. Importing the same module again binds the same values and is allowed,
+  // but an import cannot replace a constant or a name already declared in this block.
+  private defineImport(name: string, value: Value, constant: boolean, position: SourcePosition): void {
+    if (this.environment.hasOwn(name) && this.environment.get(name) === value) {
+      return;
+    }
+    if (this.environment.isConstant(name)) {
+      throw new PashtoPlusPlusError('TypeError', `Cannot change constant '${name}'`, position, DiagnosticCode.ConstantAssignment, { name });
+    }
+    if (this.environment.hasOwn(name)) {
+      throw new PashtoPlusPlusError('NameError', `'${name}' is already declared in this block`, position, DiagnosticCode.AlreadyDeclared, { name });
+    }
+    this.environment.define(name, value, constant);
+  }
+
+  // Resolve, evaluate and cache a module; each module is evaluated at most once
+  private async loadModule(specifier: string, position: SourcePosition): Promise<PashtoPlusPlusModule> {
+    const resolver = this.options.moduleResolver;
+    if (!resolver) {
+      throw new PashtoPlusPlusError('ImportError', `Cannot import '${specifier}': imports are not available here`, position, DiagnosticCode.ImportsUnavailable, { module: specifier });
+    }
+
+    const id = resolver.resolve(specifier, this.currentModule);
+
+    if (this.moduleStack.includes(id)) {
+      const cycle = [...this.moduleStack.slice(this.moduleStack.indexOf(id)), id];
+      throw new PashtoPlusPlusError('ImportError', `Circular import: ${cycle.join(' -> ')}`, position, DiagnosticCode.CircularImport, { cycle: cycle.join(' -> ') });
+    }
+
+    const cached = this.modules.get(id);
+    if (cached) {
+      return cached;
+    }
+
+    let source: string;
+    try {
+      source = await resolver.load(id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new PashtoPlusPlusError('ImportError', `Cannot import '${specifier}': ${message}`, position, DiagnosticCode.ModuleNotFound, { module: specifier });
+    }
+
+    const { program, diagnostics } = parseSource(source);
+    const syntaxError = diagnostics.find(diagnostic => diagnostic.severity === 'error');
+    if (syntaxError) {
+      const start = syntaxError.span?.start ?? { line: 1, column: 1 };
+      throw new PashtoPlusPlusError(
+        'ImportError', `Cannot import '${specifier}': ${formatDiagnostic(syntaxError)}`, position,
+        DiagnosticCode.ModuleSyntaxError, { module: specifier, line: start.line, column: start.column }
+      );
+    }
+
+    // Run the module in its own scope, with only the built-ins visible
+    const moduleEnvironment = new Environment(this.globals);
+    const previousModule = this.currentModule;
+    const previousExports = this.currentExports;
+    this.moduleStack.push(id);
+    this.currentModule = id;
+    this.currentExports = new Set();
+    try {
+      try {
+        await this.executeBlock(program.body, moduleEnvironment);
+      } catch (error) {
+        throw this.moduleError(error, specifier, position);
+      }
+
+      // Exported constants stay constant for the importing program
+      const exports = new Environment();
+      for (const name of this.currentExports) {
+        exports.define(name, moduleEnvironment.get(name), moduleEnvironment.isConstant(name));
+      }
+
+      const loaded = new PashtoPlusPlusModule(id, exports);
+      this.modules.set(id, loaded);
+      return loaded;
+    } finally {
+      this.moduleStack.pop();
+      this.currentModule = previousModule;
+      this.currentExports = previousExports;
+    }
+  }
+
+  // Report an error from running a module at the line of its import, keeping its kind so koshish handles it the same
+  // way; the English message and the params give the line and code inside the module. A circular import found
+  // deeper down is reported as itself, with the whole cycle, rather than as a failed module.
+  private moduleError(error: unknown, specifier: string, position: SourcePosition): unknown {
+    if (!(error instanceof PashtoPlusPlusError) || error instanceof ProgramStopped) {
+      return error;
+    }
+    if (error.code === DiagnosticCode.CircularImport) {
+      return new PashtoPlusPlusError(error.kind, error.detail, position, error.code, error.params);
+    }
+    return new PashtoPlusPlusError(
+      error.kind, `Error in module '${specifier}': ${error.message}`, position,
+      DiagnosticCode.ModuleFailed, { module: specifier, line: error.line ?? 0, code: error.code }
+    );
+  }
+
+  // Execute an exported function or variable, recording its name as an export
+  private async executeExportDeclaration(stmt: ExportDeclaration): Promise<void> {
+    await this.execute(stmt.declaration);
+    this.currentExports.add(stmt.name);
+  }
+
+  // Execute a try statement: errors from the block are caught by the handler, and the finalizer always runs
+  private async executeTryStatement(stmt: TryStatement): Promise<void> {
+    try {
+      await this.execute(stmt.block);
+    } catch (error) {
+      // Return, break and continue signals are not errors and pass straight through,
+      // and a stopped program stays stopped
+      if (!stmt.handler || !(error instanceof Error) || error instanceof ProgramStopped) {
+        throw error;
+      }
+
+      const caught = error instanceof PashtoPlusPlusError
+        ? error
+        : new PashtoPlusPlusError('RuntimeError', error.message, stmt);
+
+      const environment = new Environment(this.environment);
+      if (stmt.handler.param) {
+        environment.define(stmt.handler.param, caught);
+      }
+      await this.executeBlock(stmt.handler.body.body, environment);
+    } finally {
+      if (stmt.finalizer) {
+        await this.execute(stmt.finalizer);
+      }
+    }
+  }
+
+  // Execute a throw statement
+  private async executeThrowStatement(stmt: ThrowStatement): Promise<void> {
+    const value = await this.evaluate(stmt.argument);
+
+    // Rethrowing a caught error keeps its original kind and line
+    if (value instanceof PashtoPlusPlusError) {
+      throw value;
+    }
+
+    throw new PashtoPlusPlusError('ThrownError', typeof value === 'string' ? value : this.stringify(value), stmt);
+  }
+
   // Execute a return statement
-  private executeReturnStatement(stmt: ReturnStatement): void {
+  private async executeReturnStatement(stmt: ReturnStatement): Promise<void> {
     let value = null;
     if (stmt.argument) {
-      value = this.evaluate(stmt.argument);
+      value = await this.evaluate(stmt.argument);
     }
 
     throw new ReturnValue(value);
   }
 
+  // Execute a variable or constant declaration
+  private async executeVariableDeclaration(stmt: VariableDeclaration): Promise<void> {
+    this.checkRedeclaration(stmt.name, stmt);
+    const value = stmt.value ? await this.evaluate(stmt.value) : null;
+    this.environment.define(stmt.name, value, stmt.constant);
+  }
+
+  // A name can be declared once per block, by badal/sabit, opejana or tolgay
+  private checkRedeclaration(name: string, position: SourcePosition): void {
+    if (!this.environment.hasOwn(name)) {
+      return;
+    }
+    if (this.environment.isConstant(name)) {
+      throw new PashtoPlusPlusError('TypeError', `Cannot change constant '${name}'`, position, DiagnosticCode.ConstantAssignment, { name });
+    }
+    throw new PashtoPlusPlusError('NameError', `'${name}' is already declared in this block`, position, DiagnosticCode.AlreadyDeclared, { name });
+  }
+
   // Execute a function declaration
   private executeFunctionDeclaration(stmt: FunctionDeclaration): void {
+    this.checkRedeclaration(stmt.name, stmt);
     const func = new PashtoPlusPlusFunction(stmt, this.environment);
     this.environment.define(stmt.name, func);
   }
 
+  // Execute a class declaration
+  private executeClassDeclaration(stmt: ClassDeclaration): void {
+    this.checkRedeclaration(stmt.name, stmt);
+    const methods = new Map<string, PashtoPlusPlusFunction>();
+    for (const method of stmt.methods) {
+      methods.set(method.name, new PashtoPlusPlusFunction(method, this.environment));
+    }
+    this.environment.define(stmt.name, new PashtoPlusPlusClass(stmt.name, methods));
+  }
+
   // Evaluate an expression
   private async evaluate(expr: Expression): Promise<any> {
     switch (expr.type) {
@@ -305,23 +1593,47 @@ export class Interpreter {
         return (expr as NumericLiteral).value;
       case NodeType.StringLiteral:
         return (expr as StringLiteral).value;
+      case NodeType.TemplateLiteral:
+        return await this.evaluateTemplateLiteral(expr as TemplateLiteral);
       case NodeType.BooleanLiteral:
         return (expr as BooleanLiteral).value;
       case NodeType.ArrayLiteral:
         return await this.evaluateArrayLiteral(expr as ArrayLiteral);
+      case NodeType.MapLiteral:
+        return await this.evaluateMapLiteral(expr as MapLiteral);
+      case NodeType.ThisExpression:
+        return this.evaluateThisExpression(expr as ThisExpression);
+      case NodeType.FunctionExpression:
+        return new PashtoPlusPlusFunction(expr as FunctionExpression, this.environment);
       case NodeType.Identifier:
         return this.evaluateIdentifier(expr as Identifier);
       case NodeType.BinaryExpression:
         return await this.evaluateBinaryExpression(expr as BinaryExpression);
+      case NodeType.UnaryExpression:
+        return await this.evaluateUnaryExpression(expr as UnaryExpression);
+      case NodeType.UpdateExpression:
+        return await this.evaluateUpdateExpression(expr as UpdateExpression);
       case NodeType.AssignmentExpression:
         return await this.evaluateAssignmentExpression(expr as AssignmentExpression);
       case NodeType.CallExpression:
         return await this.evaluateCallExpression(expr as CallExpression);
+      case NodeType.MemberExpression:
+        return await this.evaluateMemberExpression(expr as MemberExpression);
       default:
         throw new Error(`Unknown expression type: ${expr.type}`);
     }
   }
 
+  // Evaluate a template string, inserting each expression's printed form
+  private async evaluateTemplateLiteral(expr: TemplateLiteral): Promise<string> {
+    let result = expr.quasis[0];
+    for (let i = 0; i < expr.expressions.length; i++) {
+      const value = await this.evaluate(expr.expressions[i]);
+      result += (typeof value === 'string' ? value : this.stringify(value)) + expr.quasis[i + 1];
+    }
+    return result;
+  }
+
   // Evaluate an array literal
   private async evaluateArrayLiteral(expr: ArrayLiteral): Promise<any[]> {
     const elements = [];
@@ -331,58 +1643,95 @@ export class Interpreter {
     return elements;
   }
 
+  // Evaluate a map literal
+  private async evaluateMapLiteral(expr: MapLiteral): Promise<Map<string, Value>> {
+    const map = new Map<string, Value>();
+    for (const entry of expr.entries) {
+      map.set(entry.key, await this.evaluate(entry.value));
+    }
+    return map;
+  }
+
   // Evaluate an identifier
   private evaluateIdentifier(expr: Identifier): any {
     if (this.environment.has(expr.name)) {
       return this.environment.get(expr.name);
     }
-    throw new Error(`Line ${expr.line}: '${expr.name}' na shu! (not found)`);
+    throw new PashtoPlusPlusError('NameError', `'${expr.name}' is not defined`, expr, DiagnosticCode.UndefinedName, { name: expr.name });
+  }
+
+  // Evaluate `da`, which is only defined inside methods
+  private evaluateThisExpression(expr: ThisExpression): Value {
+    if (this.environment.has('da')) {
+      return this.environment.get('da');
+    }
+    throw new PashtoPlusPlusError('NameError', '"da" can only be used inside a method', expr, DiagnosticCode.ThisOutsideMethod, {});
   }
 
   // Evaluate a binary expression
   private async evaluateBinaryExpression(expr: BinaryExpression): Promise<any> {
     const left = await this.evaluate(expr.left);
-    const right = await this.evaluate(expr.right);
 
+    // Logical operators short-circuit, so the right side is only evaluated when needed
     switch (expr.operator) {
+      case '&&':
+      case 'aw':
+        return this.isTruthy(left) ? await this.evaluate(expr.right) : left;
+      case '||':
+      case 'ya':
+        return this.isTruthy(left) ? left : await this.evaluate(expr.right);
+    }
+
+    const right = await this.evaluate(expr.right);
+    return this.applyBinaryOperator(expr.operator, left, right, expr);
+  }
+
+  // Apply an arithmetic, concatenation or comparison operator to two values
+  private applyBinaryOperator(operator: string, left: Value, right: Value, position: SourcePosition): Value {
+    switch (operator) {
       case '+':
       case 'jama':
         if (typeof left === 'number' && typeof right === 'number') {
           return left + right;
         }
-        throw new Error(`Cannot add ${typeof left} and ${typeof right}`);
+        throw new PashtoPlusPlusError('TypeError', `Cannot add ${this.describeType(left)} and ${this.describeType(right)}`, position, DiagnosticCode.OperandTypes, { operator, left: this.typeName(left), right: this.typeName(right) });
       case '-':
       case 'manfi':
         if (typeof left === 'number' && typeof right === 'number') {
           return left - right;
         }
-        throw new Error(`Cannot subtract ${typeof right} from ${typeof left}`);
+        throw new PashtoPlusPlusError('TypeError', `Cannot subtract ${this.describeType(right)} from ${this.describeType(left)}`, position, DiagnosticCode.OperandTypes, { operator, left: this.typeName(left), right: this.typeName(right) });
       case '*':
       case 'zarab':
         if (typeof left === 'number' && typeof right === 'number') {
           return left * right;
         }
-        throw new Error(`Cannot multiply ${typeof left} and ${typeof right}`);
+        throw new PashtoPlusPlusError('TypeError', `Cannot multiply ${this.describeType(left)} and ${this.describeType(right)}`, position, DiagnosticCode.OperandTypes, { operator, left: this.typeName(left), right: this.typeName(right) });
+      case '**':
+        if (typeof left === 'number' && typeof right === 'number') {
+          return left ** right;
+        }
+        throw new PashtoPlusPlusError('TypeError', `Cannot raise ${this.describeType(left)} to the power of ${this.describeType(right)}`, position, DiagnosticCode.OperandTypes, { operator, left: this.typeName(left), right: this.typeName(right) });
       case '/':
       case 'takseem':
         if (typeof left === 'number' && typeof right === 'number') {
           if (right === 0) {
-            throw new Error('Division by zero');
+            throw new PashtoPlusPlusError('ZeroDivisionError', 'Division by zero', position, DiagnosticCode.DivisionByZero, {});
           }
           return left / right;
         }
-        throw new Error(`Cannot divide ${typeof left} by ${typeof right}`);
+        throw new PashtoPlusPlusError('TypeError', `Cannot divide ${this.describeType(left)} by ${this.describeType(right)}`, position, DiagnosticCode.OperandTypes, { operator, left: this.typeName(left), right: this.typeName(right) });
       case '%':
       case 'takseembaki':
         if (typeof left === 'number' && typeof right === 'number') {
           if (right === 0) {
-            throw new Error('Modulo by zero');
+            throw new PashtoPlusPlusError('ZeroDivisionError', 'Modulo by zero', position, DiagnosticCode.ModuloByZero, {});
           }
           return left % right;
         }
-        throw new Error(`Cannot perform modulo on ${typeof left} and ${typeof right}`);
-      case '_': // String concatenation
-        return String(left) + String(right);
+        throw new PashtoPlusPlusError('TypeError', `Cannot perform modulo on ${this.describeType(left)} and ${this.describeType(right)}`, position, DiagnosticCode.OperandTypes, { operator, left: this.typeName(left), right: this.typeName(right) });
+      case '_': // String concatenation, with values written the way olika prints them
+        return this.stringify(left) + this.stringify(right);
       case '==':
         return left === right;
       case '!=':
@@ -391,41 +1740,203 @@ export class Interpreter {
         if (typeof left === 'number' && typeof right === 'number') {
           return left > right;
         }
-        throw new Error(`Cannot compare ${typeof left} and ${typeof right} with >`);
+        throw new PashtoPlusPlusError('TypeError', `Cannot compare ${this.describeType(left)} and ${this.describeType(right)} with >`, position, DiagnosticCode.OperandTypes, { operator, left: this.typeName(left), right: this.typeName(right) });
       case '<':
         if (typeof left === 'number' && typeof right === 'number') {
           return left < right;
         }
-        throw new Error(`Cannot compare ${typeof left} and ${typeof right} with <`);
+        throw new PashtoPlusPlusError('TypeError', `Cannot compare ${this.describeType(left)} and ${this.describeType(right)} with <`, position, DiagnosticCode.OperandTypes, { operator, left: this.typeName(left), right: this.typeName(right) });
       case '>=':
         if (typeof left === 'number' && typeof right === 'number') {
           return left >= right;
         }
-        throw new Error(`Cannot compare ${typeof left} and ${typeof right} with >=`);
+        throw new PashtoPlusPlusError('TypeError', `Cannot compare ${this.describeType(left)} and ${this.describeType(right)} with >=`, position, DiagnosticCode.OperandTypes, { operator, left: this.typeName(left), right: this.typeName(right) });
       case '<=':
         if (typeof left === 'number' && typeof right === 'number') {
           return left <= right;
         }
-        throw new Error(`Cannot compare ${typeof left} and ${typeof right} with <=`);
+        throw new PashtoPlusPlusError('TypeError', `Cannot compare ${this.describeType(left)} and ${this.describeType(right)} with <=`, position, DiagnosticCode.OperandTypes, { operator, left: this.typeName(left), right: this.typeName(right) });
+      default:
+        throw new Error(`Unknown operator: ${operator}`);
+    }
+  }
+
+  // Evaluate a unary expression
+  private async evaluateUnaryExpression(expr: UnaryExpression): Promise<Value> {
+    const argument = await this.evaluate(expr.argument);
+
+    switch (expr.operator) {
+      case '!':
+      case 'na':
+        return !this.isTruthy(argument);
+      case '-':
+      case 'manfi':
+        if (typeof argument === 'number') {
+          return -argument;
+        }
+        throw new PashtoPlusPlusError('TypeError', `Cannot negate ${this.describeType(argument)}`, expr, DiagnosticCode.NegateType, { type: this.typeName(argument) });
       default:
         throw new Error(`Unknown operator: ${expr.operator}`);
     }
   }
 
-  // Evaluate an assignment expression
+  // Evaluate an assignment expression, including compound forms like += and jama=
   private async evaluateAssignmentExpression(expr: AssignmentExpression): Promise<any> {
-    const value = await this.evaluate(expr.right);
+    const operator = COMPOUND_ASSIGNMENT_OPERATORS[expr.operator];
+
+    return await this.updateTarget(expr.left, async read => {
+      const right = await this.evaluate(expr.right);
+      return operator ? this.applyBinaryOperator(operator, read(), right, expr) : right;
+    });
+  }
+
+  // Evaluate `x++` or `x--`, which store the new value and return the old one
+  private async evaluateUpdateExpression(expr: UpdateExpression): Promise<Value> {
+    let previous: Value = null;
+
+    await this.updateTarget(expr.argument, async read => {
+      previous = read();
+      return this.applyBinaryOperator(expr.operator === '++' ? '+' : '-', previous, 1, expr);
+    });
 
-    // If the variable doesn't exist, define it
-    if (!this.environment.has(expr.left.name)) {
-      this.environment.define(expr.left.name, value);
+    return previous;
+  }
+
+  // Store a new value in a variable or member. `compute` receives a reader for the
+  // current value, so the target's object and key are only evaluated once.
+  private async updateTarget(
+    target: Identifier | MemberExpression,
+    compute: (read: () => Value) => Promise<Value>
+  ): Promise<Value> {
+    if (target.type === NodeType.MemberExpression) {
+      const member = target as MemberExpression;
+      const object = await this.evaluate(member.object);
+      const key = await this.evaluatePropertyKey(member);
+      const value = await compute(() => this.getMember(object, key, member));
+      this.setMember(object, key, value, member);
+      return value;
+    }
+
+    const identifier = target as Identifier;
+    const name = identifier.name;
+    const value = await compute(() => this.evaluateIdentifier(identifier));
+
+    if (this.environment.isConstant(name)) {
+      throw new PashtoPlusPlusError('TypeError', `Cannot change constant '${name}'`, target, DiagnosticCode.ConstantAssignment, { name });
+    }
+
+    // If the variable doesn't exist, define it (strict mode requires a declaration first)
+    if (!this.environment.has(name)) {
+      if (this.options.strict) {
+        throw new PashtoPlusPlusError('NameError', `'${name}' is not declared; declare it with badal first`, target, DiagnosticCode.UndeclaredName, { name });
+      }
+      this.environment.define(name, value);
     } else {
-      this.environment.assign(expr.left.name, value);
+      this.environment.assign(name, value);
     }
 
     return value;
   }
 
+  // Write a value to an array index, map key or instance field
+  private setMember(object: Value, key: Value, value: Value, target: MemberExpression): void {
+    if (Array.isArray(object)) {
+      if (!target.computed) {
+        throw this.noMembersError(object, target);
+      }
+      object[this.checkIndex(object, key, target)] = value;
+      return;
+    }
+
+    if (object instanceof Map) {
+      object.set(this.checkKey(key, target), value);
+      return;
+    }
+
+    if (object instanceof PashtoPlusPlusInstance) {
+      object.fields.set(this.checkKey(key, target), value);
+      return;
+    }
+
+    throw new PashtoPlusPlusError('TypeError', `Cannot assign to an index of ${this.describeType(object)}`, target, DiagnosticCode.NotAssignable, { type: this.typeName(object) });
+  }
+
+  // Evaluate an indexed or named member access
+  private async evaluateMemberExpression(expr: MemberExpression): Promise<Value> {
+    const object = await this.evaluate(expr.object);
+    const key = await this.evaluatePropertyKey(expr);
+    return this.getMember(object, key, expr);
+  }
+
+  // Read an array or string index, map key, instance field, error field or module export
+  private getMember(object: Value, key: Value, expr: MemberExpression): Value {
+    if (Array.isArray(object) || typeof object === 'string') {
+      if (!expr.computed) {
+        throw this.noMembersError(object, expr);
+      }
+      return object[this.checkIndex(object, key, expr)];
+    }
+
+    if (object instanceof PashtoPlusPlusError) {
+      return this.getErrorField(object, key, expr);
+    }
+
+    if (object instanceof PashtoPlusPlusInstance) {
+      const name = this.checkKey(key, expr);
+      const value = object.get(name);
+      if (value === undefined) {
+        throw new PashtoPlusPlusError('KeyError', `${object.klass.name} has no field or method '${name}'`, expr, DiagnosticCode.UnknownMember, { name: object.klass.name, member: name });
+      }
+      return value;
+    }
+
+    if (object instanceof PashtoPlusPlusModule) {
+      if (typeof key !== 'string' || !object.exports.has(key)) {
+        throw new PashtoPlusPlusError('KeyError', `Module '${object.id}' does not export '${this.stringify(key)}'`, expr, DiagnosticCode.NotExported, { module: object.id, name: this.stringify(key) });
+      }
+      return object.exports.get(key);
+    }
+
+    if (object instanceof Map) {
+      const name = this.checkKey(key, expr);
+      if (!object.has(name)) {
+        throw new PashtoPlusPlusError('KeyError', `Key '${name}' not found in map`, expr, DiagnosticCode.KeyNotFound, { key: name });
+      }
+      return object.get(name) ?? null;
+    }
+
+    throw new PashtoPlusPlusError('TypeError', `Cannot index into ${this.describeType(object)}`, expr, DiagnosticCode.NotIndexable, { type: this.typeName(object) });
+  }
+
+  // Resolve the key of a member expression: `a[expr]` evaluates, `a.name` uses the name
+  private async evaluatePropertyKey(expr: MemberExpression): Promise<Value> {
+    if (expr.computed) {
+      return await this.evaluate(expr.property);
+    }
+    return (expr.property as Identifier).name;
+  }
+
+  // Arrays and strings only have elements, so `a.length` or `a.push(1)` points to the built-in functions instead
+  private noMembersError(object: Value[] | string, expr: MemberExpression): PashtoPlusPlusError {
+    const member = (expr.property as Identifier).name;
+    const type = this.describeType(object);
+    return new PashtoPlusPlusError(
+      'TypeError', `${type[0].toUpperCase()}${type.slice(1)} has no field or method '${member}'; use a function such as oshmara instead`, expr,
+      DiagnosticCode.NoMembers, { type: this.typeName(object), member }
+    );
+  }
+
+  // Validate an array or string index and return it
+  private checkIndex(target: Value[] | string, index: Value, expr: MemberExpression): number {
+    if (typeof index !== 'number' || !Number.isInteger(index)) {
+      throw new PashtoPlusPlusError('TypeError', `Index must be a whole number, got ${this.stringify(index)}`, expr, DiagnosticCode.IndexNotWhole, { index: this.stringify(index) });
+    }
+    if (index < 0 || index >= target.length) {
+      throw new PashtoPlusPlusError('IndexError', `Index ${index} is out of bounds (length ${target.length})`, expr, DiagnosticCode.IndexOutOfBounds, { index, length: target.length });
+    }
+    return index;
+  }
+
   // Evaluate a function call
   private async evaluateCallExpression(expr: CallExpression): Promise<any> {
     const callee = await this.evaluate(expr.callee);
@@ -435,15 +1946,138 @@ export class Interpreter {
       args.push(await this.evaluate(arg));
     }
 
+    if (!this.isCallable(callee)) {
+      throw new PashtoPlusPlusError('TypeError', `${this.stringify(callee)} is not a function`, expr, DiagnosticCode.NotAFunction, { value: this.stringify(callee) });
+    }
+
+    try {
+      return await this.callFunction(callee, args);
+    } catch (error) {
+      // Errors raised by built-in functions become catchable, reported at the calling line
+      if (error instanceof CallError) {
+        throw new PashtoPlusPlusError(error.kind, error.message, expr, error.code, error.params);
+      }
+      if (error instanceof Error && !(error instanceof PashtoPlusPlusError)) {
+        throw new PashtoPlusPlusError('RuntimeError', error.message, expr);
+      }
+      throw error;
+    }
+  }
+
+  // Call a built-in or user-defined function value
+  public async callFunction(callee: Value, args: Value[]): Promise<Value> {
     if (typeof callee === 'function') {
       return await callee(...args);
     }
 
     if (callee instanceof PashtoPlusPlusFunction) {
-      return callee.call(this, args);
+      return await this.nestedCall(() => callee.call(this, args));
     }
 
-    throw new Error(`${expr.callee} is not a function`);
+    if (callee instanceof PashtoPlusPlusClass) {
+      return await this.nestedCall(() => callee.instantiate(this, args));
+    }
+
+    throw new CallError(`${this.stringify(callee)} is not a function`, DiagnosticCode.NotAFunction, { value: this.stringify(callee) });
+  }
+
+  // Run a user-defined call, stopping the program if calls are nested deeper than maxCallDepth
+  private async nestedCall(run: () => Promise<Value>): Promise<Value> {
+    const { maxCallDepth } = this.options;
+    if (maxCallDepth !== undefined && this.callDepth >= maxCallDepth) {
+      throw new ProgramStopped(
+        `Program stopped: function calls are nested deeper than ${maxCallDepth}`,
+        this.currentPosition, DiagnosticCode.CallDepthLimit, { limit: maxCallDepth }
+      );
+    }
+
+    this.callDepth++;
+    try {
+      return await run();
+    } finally {
+      this.callDepth--;
+    }
+  }
+
+  // Count one step of the program, and stop it if it ran out of steps or time, or was cancelled
+  private async step(position: SourcePosition): Promise<void> {
+    this.steps++;
+    this.currentPosition = position;
+    const { maxSteps, timeout, signal } = this.options;
+
+    if (maxSteps !== undefined && this.steps > maxSteps) {
+      throw new ProgramStopped(
+        `Program stopped: it ran more than ${maxSteps} steps`,
+        position, DiagnosticCode.StepLimit, { limit: maxSteps }
+      );
+    }
+
+    if (this.deadline !== null && Date.now() > this.deadline) {
+      throw new ProgramStopped(
+        `Program stopped: it ran longer than ${timeout} ms`,
+        position, DiagnosticCode.Timeout, { milliseconds: timeout! }
+      );
+    }
+
+    if (signal) {
+      if (this.steps % YIELD_INTERVAL === 0) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+      if (signal.aborted) {
+        throw this.cancelled(position);
+      }
+    }
+  }
+
+  // The error that stops a program whose signal was aborted
+  private cancelled(position: SourcePosition | null): ProgramStopped {
+    return new ProgramStopped('Program stopped: it was cancelled', position, DiagnosticCode.Aborted, {});
+  }
+
+  // Ask the input callback for an answer; aborting the signal stops the program even while it waits
+  private waitForInput(prompt: string): Promise<string> {
+    const { signal } = this.options;
+    if (!signal) {
+      return this.inputCallback(prompt);
+    }
+    if (signal.aborted) {
+      return Promise.reject(this.cancelled(this.currentPosition));
+    }
+
+    return new Promise<string>((resolve, reject) => {
+      const onAbort = () => reject(this.cancelled(this.currentPosition));
+      signal.addEventListener('abort', onAbort, { once: true });
+      this.inputCallback(prompt)
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  // Check if a value can be called
+  private isCallable(value: unknown): value is BuiltinFunction | PashtoPlusPlusFunction | PashtoPlusPlusClass {
+    return typeof value === 'function' || value instanceof PashtoPlusPlusFunction || value instanceof PashtoPlusPlusClass;
+  }
+
+  // Read the `message`, `line` or `kind` field of a caught error
+  private getErrorField(error: PashtoPlusPlusError, key: Value, expr: MemberExpression): Value {
+    switch (key) {
+      case 'message':
+        return error.detail;
+      case 'line':
+        return error.line;
+      case 'kind':
+        return error.kind;
+      default:
+        throw new PashtoPlusPlusError('KeyError', `Errors have no field '${this.stringify(key)}'`, expr, DiagnosticCode.UnknownErrorField, { field: this.stringify(key) });
+    }
+  }
+
+  // Validate a map key and return it
+  private checkKey(key: Value, expr: MemberExpression): string {
+    if (typeof key !== 'string') {
+      throw new PashtoPlusPlusError('TypeError', `Keys must be strings, got ${this.stringify(key)}`, expr, DiagnosticCode.KeyNotString, { key: this.stringify(key) });
+    }
+    return key;
   }
 
   // Check if a value is truthy
@@ -453,6 +2087,7 @@ export class Interpreter {
     if (typeof value === 'number') return value !== 0;
     if (typeof value === 'string') return value !== '';
     if (Array.isArray(value)) return value.length > 0;
+    if (value instanceof Map) return value.size > 0;
     return true;
   }
 }
@@ -460,24 +2095,18 @@ export class Interpreter {
 // Main entry point for running Pashto++ code
 export async function runPashtoPlusPlus(
   code: string,
-  inputCallback: () => Promise<string>
-): Promise<{ output: string, error?: string }> {
+  inputCallback: InputCallback,
+  options: InterpreterOptions = {}
+): Promise<RunResult> {
   try {
-    const { Lexer } = await import('./lexer');
-    const { Parser } = await import('./parser');
-
-    const lexer = new Lexer(code);
-    const tokens = lexer.tokenize();
-
-    const parser = new Parser(tokens);
-    const program = parser.parse();
+    const { program, diagnostics } = parseSource(code);
+    if (hasErrors(diagnostics)) {
+      return syntaxErrorResult(diagnostics);
+    }
 
-    const interpreter = new Interpreter(inputCallback);
-    return await interpreter.interpret(program);
+    const interpreter = new Interpreter(inputCallback, options);
+    return withWarnings(await interpreter.interpret(program), diagnostics);
   } catch (error) {
-    if (error instanceof Error) {
-      return { output: '', error: error.message };
-    }
-    return { output: '', error: String(error) };
+    return failedResult('', error);
   }
 }
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { JsonParser, JsonSyntaxError } from './json';
+
+// Parse JSON text, or return the error that stopped it
+function parseError(text: string): JsonSyntaxError {
+  try {
+    new JsonParser(text).parse();
+  } catch (error) {
+    if (error instanceof JsonSyntaxError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error(`Expected ${JSON.stringify(text)} to be invalid JSON`);
+}
+
+describe('JsonParser', () => {
+  it('reads objects as maps and nested arrays', () => {
+    const value = new JsonParser('{"nawm": "Ali", "umar": 30, "mewe": [1, [2, 3], {"a": null}], "ok": true}').parse();
+    expect(value).toEqual(new Map<string, unknown>([
+      ['nawm', 'Ali'],
+      ['umar', 30],
+      ['mewe', [1, [2, 3], new Map([['a', null]])]],
+      ['ok', true],
+    ]));
+  });
+
+  it('reads escapes, including \\u', () => {
+    expect(new JsonParser('"a\\"b\\\\c\\/d\\n\\t\\u0633\\u0644\\u0627\\u0645"').parse()).toBe('a"b\\c/d\n\tسلام');
+  });
+
+  it('reads negative numbers, fractions and exponents', () => {
+    expect(new JsonParser('[0, -12, 3.5, 1e3, 2.5E-2, -1e+2]').parse()).toEqual([0, -12, 3.5, 1000, 0.025, -100]);
+  });
+
+  it('allows whitespace and new lines around values', () => {
+    expect(new JsonParser(' \n[\n  1,\n  2\n]\n ').parse()).toEqual([1, 2]);
+  });
+
+  it('reports a trailing comma where the next value should start', () => {
+    const error = parseError('[1, 2,\n]');
+    expect([error.message, error.line, error.column, error.found]).toEqual([
+      "Invalid JSON: Unexpected ']' at line 2, column 1", 2, 1, ']',
+    ]);
+  });
+
+  it('reports a trailing comma in an object', () => {
+    const error = parseError('{"a": 1,}');
+    expect([error.message, error.line, error.column]).toEqual([
+      "Invalid JSON: Expected a key in double quotes but found '}' at line 1, column 9", 1, 9,
+    ]);
+  });
+
+  it('reports an unterminated string at the end of the text', () => {
+    const error = parseError('{"a": "salam');
+    expect([error.message, error.line, error.column, error.found]).toEqual([
+      'Invalid JSON: Unterminated string at line 1, column 13', 1, 13, null,
+    ]);
+  });
+
+  it('reports a string that runs onto the next line', () => {
+    const error = parseError('"salam\n"');
+    expect([error.message, error.line, error.column]).toEqual(['Invalid JSON: Unterminated string at line 1, column 7', 1, 7]);
+  });
+
+  it('reports a number with a leading zero', () => {
+    const error = parseError('[012]');
+    expect([error.message, error.line, error.column, error.found]).toEqual([
+      "Invalid JSON: Expected ',' or ']' but found '1' at line 1, column 3", 1, 3, '1',
+    ]);
+  });
+
+  it('reports text after the end of the value', () => {
+    const error = parseError('{"a": 1} x');
+    expect([error.message, error.line, error.column, error.found]).toEqual([
+      "Invalid JSON: Unexpected 'x' after the end of the value at line 1, column 10", 1, 10, 'x',
+    ]);
+  });
+
+  it('reports unknown words and escapes', () => {
+    expect(parseError('[True]').message).toBe("Invalid JSON: Unexpected 'T' at line 1, column 2");
+    expect(parseError('nil').message).toBe("Invalid JSON: Unexpected word 'nil' at line 1, column 1");
+    expect(parseError('"\\x"').message).toBe('Invalid JSON: Unknown escape \\x at line 1, column 3');
+    expect(parseError('"\\u12"').message).toBe('Invalid JSON: Expected four hex digits after \\u at line 1, column 4');
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * JSON reader for Pashto++
+ * Turns JSON text into Pashto++ values: objects become maps, true/false become rishtia/ghalat
+ */
+
+// Characters produced by the JSON backslash escapes (\u is handled separately)
+const JSON_ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  'b': '\b',
+  'f': '\f',
+  'n': '\n',
+  'r': '\r',
+  't': '\t',
+};
+
+// A JSON value as a Pashto++ value
+export type JsonValue = string | number | boolean | null | JsonValue[] | Map<string, JsonValue>;
+
+// Invalid JSON, with the position and the character (null at the end of the text) where reading stopped
+export class JsonSyntaxError extends Error {
+  line: number;
+  column: number;
+  found: string | null;
+
+  constructor(message: string, line: number, column: number, found: string | null) {
+    super(`Invalid JSON: ${message} at line ${line}, column ${column}`);
+    this.line = line;
+    this.column = column;
+    this.found = found;
+  }
+}
+
+export class JsonParser {
+  private input: string;
+  private position: number = 0;
+  private line: number = 1;
+  private column: number = 1;
+
+  constructor(input: string) {
+    this.input = input;
+  }
+
+  // Parse the whole input as a single JSON value
+  public parse(): JsonValue {
+    this.skipWhitespace();
+    const value = this.value();
+    this.skipWhitespace();
+
+    if (this.position < this.input.length) {
+      this.fail(`Unexpected '${this.current()}' after the end of the value`);
+    }
+
+    return value;
+  }
+
+  private current(): string | null {
+    return this.position < this.input.length ? this.input[this.position] : null;
+  }
+
+  private advance(): void {
+    if (this.current() === '\n') {
+      this.line++;
+      this.column = 1;
+    } else {
+      this.column++;
+    }
+    this.position++;
+  }
+
+  private skipWhitespace(): void {
+    while (' \t\n\r'.includes(this.current() ?? 'end')) {
+      this.advance();
+    }
+  }
+
+  private fail(message: string): never {
+    throw new JsonSyntaxError(message, this.line, this.column, this.current());
+  }
+
+  private expect(char: string): void {
+    if (this.current() !== char) {
+      this.fail(`Expected '${char}' but found ${this.describeCurrent()}`);
+    }
+    this.advance();
+  }
+
+  private describeCurrent(): string {
+    return this.current() === null ? 'the end of the text' : `'${this.current()}'`;
+  }
+
+  private value(): JsonValue {
+    const char = this.current() ?? '';
+
+    if (char === '{') return this.object();
+    if (char === '[') return this.array();
+    if (char === '"') return this.string();
+    if (char === '-' || /[0-9]/.test(char)) return this.number();
+    if (/[a-z]/.test(char)) return this.literal();
+
+    this.fail(`Unexpected ${this.describeCurrent()}`);
+  }
+
+  private object(): Map<string, JsonValue> {
+    const result = new Map<string, JsonValue>();
+    this.expect('{');
+    this.skipWhitespace();
+
+    if (this.current() === '}') {
+      this.advance();
+      return result;
+    }
+
+    while (true) {
+      if (this.current() !== '"') {
+        this.fail(`Expected a key in double quotes but found ${this.describeCurrent()}`);
+      }
+      const key = this.string();
+      this.skipWhitespace();
+      this.expect(':');
+      this.skipWhitespace();
+      result.set(key, this.value());
+      this.skipWhitespace();
+
+      if (this.current() === ',') {
+        this.advance();
+        this.skipWhitespace();
+        continue;
+      }
+      if (this.current() === '}') {
+        this.advance();
+        return result;
+      }
+      this.fail(`Expected ',' or '}' but found ${this.describeCurrent()}`);
+    }
+  }
+
+  private array(): JsonValue[] {
+    const result: JsonValue[] = [];
+    this.expect('[');
+    this.skipWhitespace();
+
+    if (this.current() === ']') {
+      this.advance();
+      return result;
+    }
+
+    while (true) {
+      result.push(this.value());
+      this.skipWhitespace();
+
+      if (this.current() === ',') {
+        this.advance();
+        this.skipWhitespace();
+        continue;
+      }
+      if (this.current() === ']') {
+        this.advance();
+        return result;
+      }
+      this.fail(`Expected ',' or ']' but found ${this.describeCurrent()}`);
+    }
+  }
+
+  private string(): string {
+    let result = '';
+    this.expect('"');
+
+    while (this.current() !== '"') {
+      if (this.current() === null || this.current() === '\n') {
+        this.fail('Unterminated string');
+      }
+
+      if (this.current() === '\\') {
+        this.advance();
+        const escape = this.current();
+        if (escape === 'u') {
+          this.advance();
+          const hex = this.input.slice(this.position, this.position + 4);
+          if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+            this.fail('Expected four hex digits after \\u');
+          }
+          result += String.fromCharCode(parseInt(hex, 16));
+          for (let i = 0; i < 4; i++) this.advance();
+          continue;
+        }
+        if (escape === null || JSON_ESCAPES[escape] === undefined) {
+          this.fail(`Unknown escape \\${escape ?? ''}`);
+        }
+        result += JSON_ESCAPES[escape];
+        this.advance();
+        continue;
+      }
+
+      result += this.current();
+      this.advance();
+    }
+
+    this.advance(); // Closing quote
+    return result;
+  }
+
+  private number(): number {
+    const match = /^-?(0|[1-9][0-9]*)(\.[0-9]+)?([eE][+-]?[0-9]+)?/.exec(this.input.slice(this.position));
+    if (!match) {
+      this.fail(`Invalid number starting with ${this.describeCurrent()}`);
+    }
+
+    for (let i = 0; i < match[0].length; i++) this.advance();
+    return Number(match[0]);
+  }
+
+  private literal(): boolean | null {
+    const word = /^[a-z]+/.exec(this.input.slice(this.position))![0];
+
+    if (word !== 'true' && word !== 'false' && word !== 'null') {
+      this.fail(`Unexpected word '${word}'`);
+    }
+
+    for (let i = 0; i < word.length; i++) this.advance();
+    return word === 'null' ? null : word === 'true';
+  }
+}
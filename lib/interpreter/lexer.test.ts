@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { Lexer } from './lexer';
+
+// Tokenize source code into [type, value] pairs, without the EOF token
+function tokens(code: string): [string, string][] {
+  return new Lexer(code).tokenize().slice(0, -1).map(token => [token.type, token.value]);
+}
+
+// Lex source code and return the code, line and column of each error
+function errors(code: string): [string, number | undefined, number | undefined][] {
+  const lexer = new Lexer(code);
+  lexer.tokenize();
+  return lexer.diagnostics.map(d => [d.code, d.span?.start.line, d.span?.start.column]);
+}
+
+describe('Pashto script', () => {
+  it('reads Pashto-script keywords as their Latin forms', () => {
+    expect(tokens('که ګني کله چې راکه ثابت ريښتيا رښتیا')).toEqual([
+      ['KEYWORD', 'ko'],
+      ['KEYWORD', 'geni'],
+      ['KEYWORD', 'kala'],
+      ['KEYWORD', 'che'],
+      ['KEYWORD', 'raka'],
+      ['KEYWORD', 'sabit'],
+      ['KEYWORD', 'rishtia'],
+      ['KEYWORD', 'rishtia'],
+    ]);
+  });
+
+  it('reads Pashto-script operator words', () => {
+    expect(tokens('الف جمع ب او نه ج')).toEqual([
+      ['IDENTIFIER', 'الف'],
+      ['OPERATOR', 'jama'],
+      ['IDENTIFIER', 'ب'],
+      ['OPERATOR', 'aw'],
+      ['OPERATOR', 'na'],
+      ['IDENTIFIER', 'ج'],
+    ]);
+  });
+
+  it('reads identifiers with Pashto letters, digits and the zero-width non-joiner', () => {
+    expect(tokens('ښار_۲ = ډېر\u200cوالی')).toEqual([
+      ['IDENTIFIER', 'ښار_۲'],
+      ['OPERATOR', '='],
+      ['IDENTIFIER', 'ډېر\u200cوالی'],
+    ]);
+  });
+});
+
+describe('numbers', () => {
+  it('reads Extended Arabic-Indic and Arabic-Indic digits as Latin digits', () => {
+    expect(tokens('۱۲۳ ٤٥٦ 7۸9')).toEqual([['NUMBER', '123'], ['NUMBER', '456'], ['NUMBER', '789']]);
+  });
+
+  it('reads the Arabic decimal separator as a decimal point', () => {
+    expect(tokens('۳٫۱۴ 2٫5 ۱.۵')).toEqual([['NUMBER', '3.14'], ['NUMBER', '2.5'], ['NUMBER', '1.5']]);
+  });
+});
+
+describe('strings', () => {
+  it('reads escapes', () => {
+    expect(tokens('"a\\nb\\t\\"c\\" \\\\ \\$"')).toEqual([['STRING', 'a\nb\t"c" \\ $']]);
+    expect(tokens("'it\\'s'")).toEqual([['STRING', "it's"]]);
+  });
+
+  it('keeps an unknown escape as written and warns about it', () => {
+    const lexer = new Lexer('"C:\\path\\new"');
+    expect(lexer.tokenize()[0].value).toBe('C:\\path\new');
+    expect(lexer.diagnostics.map(d => [d.code, d.severity, d.params, d.span?.start.column])).toEqual([
+      ['E102', 'warning', { escape: '\\p' }, 4],
+    ]);
+  });
+
+  it('reads triple-quoted strings over several lines, with single quotes inside', () => {
+    expect(tokens('"""line 1\n"line" 2"""\nx')).toEqual([['STRING', 'line 1\n"line" 2'], ['IDENTIFIER', 'x']]);
+    expect(tokens("'''a\nb'''")).toEqual([['STRING', 'a\nb']]);
+  });
+
+  it('reports an unterminated string where it starts', () => {
+    expect(errors('x = 1\ny = """open\n')).toEqual([['E101', 2, 5]]);
+  });
+});
+
+describe('template strings', () => {
+  it('splits text and interpolations', () => {
+    expect(tokens('`Salam ${nawm}!`')).toEqual([
+      ['PUNCTUATION', '`'],
+      ['TEMPLATE', 'Salam '],
+      ['PUNCTUATION', '${'],
+      ['IDENTIFIER', 'nawm'],
+      ['PUNCTUATION', '}'],
+      ['TEMPLATE', '!'],
+      ['PUNCTUATION', '`'],
+    ]);
+  });
+
+  it('reads escapes in the text, including an escaped ${', () => {
+    expect(tokens('`a\\`b \\${c}\\n`')).toEqual([
+      ['PUNCTUATION', '`'],
+      ['TEMPLATE', 'a`b ${c}\n'],
+      ['PUNCTUATION', '`'],
+    ]);
+  });
+
+  it('keeps braces inside an interpolation in the expression', () => {
+    expect(tokens('`${ {a: 1}.a }x`').map(([, value]) => value)).toEqual([
+      '`', '${', '{', 'a', ':', '1', '}', '.', 'a', '}', 'x', '`',
+    ]);
+  });
+
+  it('reads a template nested inside an interpolation', () => {
+    expect(tokens('`a ${ `b ${c}` } d`').map(([, value]) => value)).toEqual([
+      '`', 'a ', '${', '`', 'b ', '${', 'c', '}', '`', '}', ' d', '`',
+    ]);
+  });
+
+  it('reports a template that reaches the end of the file in its text', () => {
+    expect(errors('x = `abc')).toEqual([['E103', 1, 6]]);
+  });
+
+  it('reports a template that reaches the end of the file inside an interpolation', () => {
+    expect(errors('x = 1\ny = `abc ${')).toEqual([['E103', 2, 10]]);
+    expect(errors('y = `a ${ {b: `c ${')).toEqual([['E103', 1, 18]]);
+  });
+});
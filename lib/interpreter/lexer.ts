@@ -3,9 +3,12 @@
  * Tokenizes the input code into a stream of tokens
  */
 
+import { Diagnostic, DiagnosticCode, DiagnosticParams, DiagnosticSeverity, createDiagnostic } from './diagnostics';
+
 export enum TokenType {
   NUMBER = 'NUMBER',
   STRING = 'STRING',
+  TEMPLATE = 'TEMPLATE', // Text between the interpolations of a backtick string
   IDENTIFIER = 'IDENTIFIER',
   KEYWORD = 'KEYWORD',
   OPERATOR = 'OPERATOR',
@@ -29,6 +32,22 @@ export const KEYWORDS = [
   'we', // in
   'opejana', // function
   'raka', // return
+  'bas', // break
+  'wrusta', // continue
+  'koshish', // try
+  'niwal', // catch
+  'akhir', // finally
+  'ghurzawa', // throw
+  'rawra', // import
+  'lakah', // as
+  'sadir', // export
+  'tolgay', // class
+  'da', // this
+  'intikhab', // match
+  'halat', // case
+  'tar', // range (to)
+  'badal', // variable declaration
+  'sabit', // constant declaration
   'olika', // print
   'oghwara', // input
   'rishtia', // true
@@ -40,6 +59,7 @@ export const OPERATORS = [
   '+', 'jama', // addition
   '-', 'manfi', // subtraction
   '*', 'zarab', // multiplication
+  '**', // power
   '/', 'takseem', // division
   '%', 'takseembaki', // modulo
   '_', // concatenation
@@ -50,39 +70,140 @@ export const OPERATORS = [
   '>=', // greater than or equal
   '<=', // less than or equal
   '=', // assignment
+  '&&', 'aw', // logical and
+  '||', 'ya', // logical or
+  '!', 'na', // logical not
+  '++', // increment
+  '--', // decrement
 ];
 
+// Compound assignment operators, mapped to the binary operator each one applies.
+// Operator words take an attached '=' (e.g. `shumar jama= 2`).
+export const COMPOUND_ASSIGNMENT_OPERATORS: Record<string, string> = {
+  '+=': '+', 'jama=': 'jama',
+  '-=': '-', 'manfi=': 'manfi',
+  '*=': '*', 'zarab=': 'zarab',
+  '/=': '/', 'takseem=': 'takseem',
+  '%=': '%', 'takseembaki=': 'takseembaki',
+  '_=': '_',
+};
+
+// Pashto-script spellings, mapped to the Latin keyword or operator they stand for.
+// The first spelling of each keyword matches the `keywords` section of messages/ps.json.
+export const PASHTO_KEYWORDS = new Map<string, string>([
+  ['که', 'ko'],
+  ['ګني', 'geni'], ['ګنې', 'geni'],
+  ['کله', 'kala'], ['بیا', 'kala'],
+  ['چې', 'che'],
+  ['وې', 'we'], ['کې', 'we'],
+  ['اوپيجنه', 'opejana'], ['دنده', 'opejana'],
+  ['راکه', 'raka'], ['راکړه', 'raka'],
+  ['بس', 'bas'],
+  ['وروسته', 'wrusta'],
+  ['کوشش', 'koshish'],
+  ['نیول', 'niwal'],
+  ['اخر', 'akhir'],
+  ['وغورځوه', 'ghurzawa'],
+  ['راوړه', 'rawra'],
+  ['لکه', 'lakah'],
+  ['صادر', 'sadir'],
+  ['ټولګی', 'tolgay'],
+  ['دا', 'da'],
+  ['انتخاب', 'intikhab'],
+  ['حالت', 'halat'],
+  ['تر', 'tar'],
+  ['بدل', 'badal'],
+  ['ثابت', 'sabit'],
+  ['وليکه', 'olika'], ['ولیکه', 'olika'], ['چاپ', 'olika'],
+  ['اوغواره', 'oghwara'], ['وغواړه', 'oghwara'],
+  ['ريښتيا', 'rishtia'], ['رښتیا', 'rishtia'],
+  ['غلط', 'ghalat'],
+  ['جمع', 'jama'],
+  ['منفي', 'manfi'],
+  ['ضرب', 'zarab'],
+  ['تقسیم', 'takseem'],
+  ['پاتې', 'takseembaki'],
+  ['او', 'aw'],
+  ['یا', 'ya'],
+  ['نه', 'na'],
+]);
+
+// Identifiers may use any Unicode letter, so Pashto script (including ټ ډ ړ ښ ږ ځ څ) works
+const IDENTIFIER_START = /[\p{L}_]/u;
+// Combining marks and the zero-width non-joiner are common inside Pashto words
+const IDENTIFIER_PART = /[\p{L}\p{M}\p{N}_\u200c]/u;
+
+// ASCII digits plus Extended Arabic-Indic (Pashto) ۰-۹ and Arabic-Indic ٠-٩ digits
+const DIGIT = /[0-9\u06F0-\u06F9\u0660-\u0669]/;
+// The Arabic decimal separator (٫) may be used instead of '.'
+const ARABIC_DECIMAL_SEPARATOR = '\u066B';
+
+// Convert a digit from any supported script to its ASCII form
+function toLatinDigit(char: string): string {
+  const code = char.charCodeAt(0);
+  if (code >= 0x06F0 && code <= 0x06F9) return String(code - 0x06F0);
+  if (code >= 0x0660 && code <= 0x0669) return String(code - 0x0660);
+  return char;
+}
+
+// Convert the digits and decimal separator of a number written in any supported script to ASCII
+export function toLatinNumber(text: string): string {
+  return Array.from(text)
+    .map(char => (char === ARABIC_DECIMAL_SEPARATOR ? '.' : toLatinDigit(char)))
+    .join('');
+}
+
+// Characters produced by the supported backslash escapes
+const ESCAPES: Record<string, string> = {
+  'n': '\n',
+  't': '\t',
+  'r': '\r',
+  '0': '\0',
+  '\\': '\\',
+  '"': '"',
+  "'": "'",
+  '`': '`',
+  '$': '$',
+};
+
 export class Lexer {
   private code: string;
   private position: number = 0;
   private line: number = 1;
   private column: number = 1;
   private currentChar: string | null = null;
+  // Brace depth inside each open `${...}` interpolation and where it starts, innermost last
+  private interpolations: { braces: number; line: number; column: number }[] = [];
+  // Whether we are reading the text part of a backtick string
+  private inTemplateText: boolean = false;
+  // Lexing errors found by tokenize(); the lexer skips past each one and keeps going
+  public readonly diagnostics: Diagnostic[] = [];
 
   constructor(code: string) {
     this.code = code;
     this.currentChar = this.code.length > 0 ? this.code[0] : null;
   }
 
+  // Record a lexing error, or a warning that doesn't stop the program
+  private report(code: DiagnosticCode, message: string, params: DiagnosticParams, line: number, column: number, length: number = 1, severity: DiagnosticSeverity = 'error'): void {
+    this.diagnostics.push(createDiagnostic('lex', code, message, params, line, column, length, severity));
+  }
+
   private advance(): void {
-    this.position++;
-    this.column++;
-    
-    if (this.position >= this.code.length) {
-      this.currentChar = null;
+    // Handle newlines for line counting: the character after a newline starts the next line
+    if (this.currentChar === '\n') {
+      this.line++;
+      this.column = 1;
     } else {
-      this.currentChar = this.code[this.position];
-      
-      // Handle newlines for line counting
-      if (this.currentChar === '\n') {
-        this.line++;
-        this.column = 1;
-      }
+      this.column++;
     }
+    
+    this.position++;
+    this.currentChar = this.position >= this.code.length ? null : this.code[this.position];
   }
 
-  private peek(): string | null {
-    const peekPos = this.position + 1;
+  private peek(offset: number = 1): string | null {
+    const peekPos = this.position + offset;
     if (peekPos >= this.code.length) {
       return null;
     }
@@ -114,25 +235,25 @@ export class Lexer {
     let result = '';
     const startColumn = this.column;
     
-    // Get the integer part
+    // Get the integer part (the token value is always stored with ASCII digits)
     while (
       this.currentChar !== null && 
-      /[0-9]/.test(this.currentChar)
+      DIGIT.test(this.currentChar)
     ) {
-      result += this.currentChar;
+      result += toLatinDigit(this.currentChar);
       this.advance();
     }
     
     // Get the decimal part if it exists
-    if (this.currentChar === '.') {
+    if (this.currentChar === '.' || this.currentChar === ARABIC_DECIMAL_SEPARATOR) {
       result += '.';
       this.advance();
       
       while (
         this.currentChar !== null && 
-        /[0-9]/.test(this.currentChar)
+        DIGIT.test(this.currentChar)
       ) {
-        result += this.currentChar;
+        result += toLatinDigit(this.currentChar);
         this.advance();
       }
     }
@@ -145,49 +266,136 @@ export class Lexer {
     };
   }
 
+  // Read the character after a backslash and return what it stands for.
+  // An unknown escape, like the \p in "C:\path", is kept as written and reported as a warning.
+  private escapeSequence(): string {
+    const startColumn = this.column;
+    this.advance(); // Skip the backslash
+    
+    if (this.currentChar === null) {
+      return ''; // The unterminated string is reported by the caller
+    }
+    
+    const char = this.currentChar;
+    const escaped = ESCAPES[char];
+    if (escaped === undefined) {
+      this.report(DiagnosticCode.UnknownEscape, `Unknown escape sequence '\\${char}'; it is kept as written`, { escape: `\\${char}` }, this.line, startColumn, 2, 'warning');
+    }
+    
+    this.advance();
+    return escaped ?? `\\${char}`;
+  }
+
   private string(): Token {
+    const startLine = this.line;
     const startColumn = this.column;
-    const quote = this.currentChar; // Save the quote type (' or ")
+    const quote = this.currentChar!; // Save the quote type (' or ")
     let result = '';
     
-    this.advance(); // Skip the opening quote
+    // Triple quotes (""" or ''') start a multi-line string
+    const delimiter = this.peek() === quote && this.peek(2) === quote ? quote.repeat(3) : quote;
+    for (let i = 0; i < delimiter.length; i++) {
+      this.advance(); // Skip the opening quotes
+    }
     
-    while (
-      this.currentChar !== null && 
-      this.currentChar !== quote
-    ) {
-      result += this.currentChar;
-      this.advance();
+    while (this.currentChar !== null && !this.startsWith(delimiter)) {
+      if (this.currentChar === '\\') {
+        result += this.escapeSequence();
+      } else {
+        result += this.currentChar;
+        this.advance();
+      }
     }
     
-    if (this.currentChar === quote) {
-      this.advance(); // Skip the closing quote
-    } else {
-      throw new Error(`Unterminated string at line ${this.line}, column ${startColumn}`);
+    if (this.currentChar === null) {
+      this.report(DiagnosticCode.UnterminatedString, 'Unterminated string', {}, startLine, startColumn);
+    }
+    
+    for (let i = 0; i < delimiter.length && this.currentChar !== null; i++) {
+      this.advance(); // Skip the closing quotes
     }
     
     return {
       type: TokenType.STRING,
       value: result,
-      line: this.line,
+      line: startLine,
       column: startColumn,
     };
   }
 
+  // Read the text of a backtick string up to the next `${`, or the closing backtick
+  private templateText(): Token {
+    const startLine = this.line;
+    const startColumn = this.column;
+    let result = '';
+    
+    while (this.currentChar !== null && this.currentChar !== '`' && !this.startsWith('${')) {
+      if (this.currentChar === '\\') {
+        result += this.escapeSequence();
+      } else {
+        result += this.currentChar;
+        this.advance();
+      }
+    }
+    
+    // Close the template at the end of the file, so the rest of it can still be parsed
+    if (this.currentChar === null) {
+      this.report(DiagnosticCode.UnterminatedTemplate, 'Unterminated template string', {}, startLine, startColumn);
+      this.inTemplateText = false;
+      return {
+        type: TokenType.PUNCTUATION,
+        value: '`',
+        line: this.line,
+        column: this.column,
+      };
+    }
+    
+    if (result !== '') {
+      return {
+        type: TokenType.TEMPLATE,
+        value: result,
+        line: startLine,
+        column: startColumn,
+      };
+    }
+    
+    // No text left: emit the delimiter that ends this part
+    const value = this.currentChar === '`' ? '`' : '${';
+    for (let i = 0; i < value.length; i++) {
+      this.advance();
+    }
+    
+    this.inTemplateText = false;
+    if (value === '${') {
+      this.interpolations.push({ braces: 0, line: startLine, column: startColumn });
+    }
+    
+    return {
+      type: TokenType.PUNCTUATION,
+      value,
+      line: startLine,
+      column: startColumn,
+    };
+  }
+
+  private startsWith(text: string): boolean {
+    return this.code.startsWith(text, this.position);
+  }
+
   private identifier(): Token {
     let result = '';
     const startColumn = this.column;
     
     while (
       this.currentChar !== null && 
-      /[a-zA-Z0-9_]/.test(this.currentChar)
+      IDENTIFIER_PART.test(this.currentChar)
     ) {
       result += this.currentChar;
       this.advance();
     }
     
-    // Check if it's a keyword (case insensitive)
-    const lowerResult = result.toLowerCase();
+    // Check if it's a keyword (case insensitive), resolving Pashto-script spellings first
+    const lowerResult = PASHTO_KEYWORDS.get(result) ?? result.toLowerCase();
     if (KEYWORDS.includes(lowerResult)) {
       return {
         type: TokenType.KEYWORD,
@@ -197,6 +405,21 @@ export class Lexer {
       };
     }
     
+    // An arithmetic operator word directly followed by '=' is a compound assignment (like 'jama=')
+    if (
+      COMPOUND_ASSIGNMENT_OPERATORS[lowerResult + '='] !== undefined &&
+      this.currentChar === '=' &&
+      this.peek() !== '='
+    ) {
+      this.advance();
+      return {
+        type: TokenType.OPERATOR,
+        value: lowerResult + '=',
+        line: this.line,
+        column: startColumn,
+      };
+    }
+    
     // Check if it's an operator word (like 'jama', 'manfi', etc.)
     if (OPERATORS.includes(lowerResult)) {
       return {
@@ -226,10 +449,19 @@ export class Lexer {
       (value === '=' && this.currentChar === '=') ||
       (value === '!' && this.currentChar === '=') ||
       (value === '>' && this.currentChar === '=') ||
-      (value === '<' && this.currentChar === '=')
+      (value === '<' && this.currentChar === '=') ||
+      (value === '&' && this.currentChar === '&') ||
+      (value === '|' && this.currentChar === '|') ||
+      (value === '+' && this.currentChar === '+') ||
+      (value === '-' && this.currentChar === '-') ||
+      (value === '*' && this.currentChar === '*') ||
+      (['+', '-', '*', '/', '%'].includes(value) && this.currentChar === '=')
     ) {
       value += this.currentChar;
       this.advance();
+    } else if (value === '&' || value === '|') {
+      this.report(DiagnosticCode.UnexpectedCharacter, `Unexpected character '${value}'`, { char: value }, this.line, startColumn);
+      return this.getNextToken();
     }
     
     return {
@@ -241,6 +473,10 @@ export class Lexer {
   }
 
   public getNextToken(): Token {
+    if (this.inTemplateText) {
+      return this.templateText();
+    }
+    
     while (this.currentChar !== null) {
       // Skip whitespace
       if (/\s/.test(this.currentChar)) {
@@ -255,7 +491,7 @@ export class Lexer {
       }
       
       // Numbers
-      if (/[0-9]/.test(this.currentChar)) {
+      if (DIGIT.test(this.currentChar)) {
         return this.number();
       }
       
@@ -264,8 +500,21 @@ export class Lexer {
         return this.string();
       }
       
+      // Template strings: the text parts are read by templateText()
+      if (this.currentChar === '`') {
+        const token: Token = {
+          type: TokenType.PUNCTUATION,
+          value: '`',
+          line: this.line,
+          column: this.column,
+        };
+        this.advance();
+        this.inTemplateText = true;
+        return token;
+      }
+      
       // Identifiers and keywords
-      if (/[a-zA-Z_]/.test(this.currentChar)) {
+      if (IDENTIFIER_START.test(this.currentChar)) {
         return this.identifier();
       }
       
@@ -274,12 +523,14 @@ export class Lexer {
           this.currentChar === '=' || 
           this.currentChar === '!' ||
           this.currentChar === '>' ||
-          this.currentChar === '<') {
+          this.currentChar === '<' ||
+          this.currentChar === '&' ||
+          this.currentChar === '|') {
         return this.operator();
       }
       
       // Punctuation
-      if (['(', ')', '{', '}', '[', ']', ',', '.', ';'].includes(this.currentChar)) {
+      if (['(', ')', '{', '}', '[', ']', ',', '.', ';', ':'].includes(this.currentChar)) {
         const token: Token = {
           type: TokenType.PUNCTUATION,
           value: this.currentChar,
@@ -287,11 +538,20 @@ export class Lexer {
           column: this.column,
         };
         this.advance();
+        this.trackInterpolationBraces(token.value);
         return token;
       }
       
-      // If we get here, we have an unrecognized character
-      throw new Error(`Unexpected character '${this.currentChar}' at line ${this.line}, column ${this.column}`);
+      // If we get here, we have an unrecognized character: report it and skip it
+      this.report(DiagnosticCode.UnexpectedCharacter, `Unexpected character '${this.currentChar}'`, { char: this.currentChar }, this.line, this.column);
+      this.advance();
+    }
+    
+    // The file ended inside a `${...}`, so its template string was never closed
+    const interpolation = this.interpolations.pop();
+    if (interpolation) {
+      this.report(DiagnosticCode.UnterminatedTemplate, 'Unterminated template string', {}, interpolation.line, interpolation.column, 2);
+      this.interpolations = [];
     }
     
     // End of file
@@ -303,6 +563,23 @@ export class Lexer {
     };
   }
 
+  // Keep count of braces inside `${...}` so the closing "}" returns to the template text
+  private trackInterpolationBraces(punctuation: string): void {
+    const depth = this.interpolations.length - 1;
+    if (depth < 0) return;
+    
+    if (punctuation === '{') {
+      this.interpolations[depth].braces++;
+    } else if (punctuation === '}') {
+      if (this.interpolations[depth].braces === 0) {
+        this.interpolations.pop();
+        this.inTemplateText = true;
+      } else {
+        this.interpolations[depth].braces--;
+      }
+    }
+  }
+
   public tokenize(): Token[] {
     const tokens: Token[] = [];
     let token = this.getNextToken();
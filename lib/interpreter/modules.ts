@@ -0,0 +1,54 @@
+/**
+ * Module resolution for Pashto++ imports
+ * Resolvers turn an import path into a module id and load its source code
+ */
+
+export interface ModuleResolver {
+  // Turn an import path into a canonical module id; `importer` is null for the main program
+  resolve(specifier: string, importer: string | null): string;
+  // Read the source code of a resolved module
+  load(id: string): Promise<string>;
+}
+
+// Join a relative import path onto the directory of the importing module
+export function resolveModulePath(specifier: string, importer: string | null): string {
+  const base = specifier.startsWith('/') || importer === null
+    ? []
+    : importer.split('/').slice(0, -1);
+
+  const segments = [...base];
+  for (const segment of specifier.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+
+  return segments.join('/');
+}
+
+// Resolver backed by an in-memory map of file names to source code (used in the browser)
+export class MemoryModuleResolver implements ModuleResolver {
+  private files: Map<string, string>;
+
+  constructor(files: Record<string, string> = {}) {
+    this.files = new Map();
+    for (const [name, source] of Object.entries(files)) {
+      this.files.set(resolveModulePath(name, null), source);
+    }
+  }
+
+  resolve(specifier: string, importer: string | null): string {
+    return resolveModulePath(specifier, importer);
+  }
+
+  async load(id: string): Promise<string> {
+    const source = this.files.get(id);
+    if (source === undefined) {
+      throw new Error(`Module '${id}' not found`);
+    }
+    return source;
+  }
+}
@@ -3,27 +3,43 @@
  * Parses tokens into an Abstract Syntax Tree (AST)
  */
 
-import { Token, TokenType } from './lexer';
+import { Token, TokenType, COMPOUND_ASSIGNMENT_OPERATORS } from './lexer';
+import { Diagnostic, DiagnosticCode, DiagnosticError, DiagnosticParams, createDiagnostic } from './diagnostics';
 
 // AST Node Types
 export enum NodeType {
   Program = 'Program',
   NumericLiteral = 'NumericLiteral',
   StringLiteral = 'StringLiteral',
+  TemplateLiteral = 'TemplateLiteral',
   BooleanLiteral = 'BooleanLiteral',
   Identifier = 'Identifier',
   BinaryExpression = 'BinaryExpression',
+  UnaryExpression = 'UnaryExpression',
+  UpdateExpression = 'UpdateExpression',
   AssignmentExpression = 'AssignmentExpression',
   VariableDeclaration = 'VariableDeclaration',
   FunctionDeclaration = 'FunctionDeclaration',
+  FunctionExpression = 'FunctionExpression',
+  ClassDeclaration = 'ClassDeclaration',
+  ThisExpression = 'ThisExpression',
   CallExpression = 'CallExpression',
+  MemberExpression = 'MemberExpression',
   ReturnStatement = 'ReturnStatement',
+  BreakStatement = 'BreakStatement',
+  ContinueStatement = 'ContinueStatement',
+  TryStatement = 'TryStatement',
+  ThrowStatement = 'ThrowStatement',
+  ImportStatement = 'ImportStatement',
+  ExportDeclaration = 'ExportDeclaration',
   IfStatement = 'IfStatement',
+  MatchStatement = 'MatchStatement',
   WhileStatement = 'WhileStatement',
   ForStatement = 'ForStatement',
   BlockStatement = 'BlockStatement',
   ExpressionStatement = 'ExpressionStatement',
   ArrayLiteral = 'ArrayLiteral',
+  MapLiteral = 'MapLiteral',
 }
 
 // AST Node interfaces
@@ -52,6 +68,13 @@ export interface StringLiteral extends Expression {
   value: string;
 }
 
+// A backtick string: `quasis` are the text parts around each interpolated expression
+export interface TemplateLiteral extends Expression {
+  type: NodeType.TemplateLiteral;
+  quasis: string[];
+  expressions: Expression[];
+}
+
 export interface BooleanLiteral extends Expression {
   type: NodeType.BooleanLiteral;
   value: boolean;
@@ -69,16 +92,32 @@ export interface BinaryExpression extends Expression {
   right: Expression;
 }
 
+export interface UnaryExpression extends Expression {
+  type: NodeType.UnaryExpression;
+  operator: string;
+  argument: Expression;
+}
+
+// `++` or `--` after a variable or member; evaluates to the old value
+export interface UpdateExpression extends Expression {
+  type: NodeType.UpdateExpression;
+  operator: string;
+  argument: Identifier | MemberExpression;
+}
+
 export interface AssignmentExpression extends Expression {
   type: NodeType.AssignmentExpression;
-  left: Identifier;
+  operator: string; // '=' or a compound operator such as '+=' or 'jama='
+  left: Identifier | MemberExpression;
   right: Expression;
 }
 
+// `badal name = value` declares a variable, `sabit name = value` a constant
 export interface VariableDeclaration extends Statement {
   type: NodeType.VariableDeclaration;
   name: string;
   value: Expression | null;
+  constant: boolean;
 }
 
 export interface FunctionDeclaration extends Statement {
@@ -88,22 +127,104 @@ export interface FunctionDeclaration extends Statement {
   body: BlockStatement;
 }
 
+// Methods named `jorawal` act as the constructor
+export interface ClassDeclaration extends Statement {
+  type: NodeType.ClassDeclaration;
+  name: string;
+  methods: FunctionDeclaration[];
+}
+
+// The `da` keyword: the instance a method was called on
+export interface ThisExpression extends Expression {
+  type: NodeType.ThisExpression;
+}
+
+export interface FunctionExpression extends Expression {
+  type: NodeType.FunctionExpression;
+  params: string[];
+  body: BlockStatement;
+}
+
 export interface CallExpression extends Expression {
   type: NodeType.CallExpression;
   callee: Expression;
   arguments: Expression[];
 }
 
+// Covers both `list[i]` (computed) and `value.name` access
+export interface MemberExpression extends Expression {
+  type: NodeType.MemberExpression;
+  object: Expression;
+  property: Expression;
+  computed: boolean;
+}
+
 export interface ReturnStatement extends Statement {
   type: NodeType.ReturnStatement;
   argument: Expression | null;
 }
 
+export interface BreakStatement extends Statement {
+  type: NodeType.BreakStatement;
+}
+
+export interface ContinueStatement extends Statement {
+  type: NodeType.ContinueStatement;
+}
+
+export interface CatchClause {
+  param: string | null;
+  body: BlockStatement;
+}
+
+export interface TryStatement extends Statement {
+  type: NodeType.TryStatement;
+  block: BlockStatement;
+  handler: CatchClause | null;
+  finalizer: BlockStatement | null;
+}
+
+export interface ThrowStatement extends Statement {
+  type: NodeType.ThrowStatement;
+  argument: Expression;
+}
+
+// `rawra "file.ppp"` defines every export in the current scope; `lakah name` binds the module instead
+export interface ImportStatement extends Statement {
+  type: NodeType.ImportStatement;
+  source: string;
+  alias: string | null;
+}
+
+export interface ExportDeclaration extends Statement {
+  type: NodeType.ExportDeclaration;
+  name: string;
+  declaration: FunctionDeclaration | ClassDeclaration | VariableDeclaration | ExpressionStatement;
+}
+
 export interface IfStatement extends Statement {
   type: NodeType.IfStatement;
   test: Expression;
   consequent: BlockStatement;
-  alternate: BlockStatement | null;
+  alternate: BlockStatement | IfStatement | null; // `geni ko` chains hold another IfStatement
+}
+
+// A single value (`halat 1`) or an inclusive range (`halat 1 tar 5`)
+export type MatchPattern =
+  | { kind: 'value'; value: Expression }
+  | { kind: 'range'; from: Expression; to: Expression };
+
+export interface MatchCase {
+  patterns: MatchPattern[];
+  body: BlockStatement;
+  line: number;
+}
+
+export interface MatchStatement extends Statement {
+  type: NodeType.MatchStatement;
+  discriminant: Expression;
+  cases: MatchCase[];
+  defaultCase: BlockStatement | null;
 }
 
 export interface WhileStatement extends Statement {
@@ -134,34 +255,32 @@ export interface ArrayLiteral extends Expression {
   elements: Expression[];
 }
 
-// Operator precedence for expression parsing
-const PRECEDENCE: Record<string, number> = {
-  '=': 1,
-  '==': 2,
-  '!=': 2,
-  '<': 3,
-  '>': 3,
-  '<=': 3,
-  '>=': 3,
-  '+': 4,
-  'jama': 4,
-  '-': 4,
-  'manfi': 4,
-  '_': 4, // concatenation
-  '*': 5,
-  'zarab': 5,
-  '/': 5,
-  'takseem': 5,
-  '%': 5,
-  'takseembaki': 5,
-};
+export interface MapEntry {
+  key: string;
+  value: Expression;
+}
+
+export interface MapLiteral extends Expression {
+  type: NodeType.MapLiteral;
+  entries: MapEntry[];
+}
+
+// Keywords that begin a statement; error recovery resumes parsing at them
+const STATEMENT_KEYWORDS = [
+  'ko', 'intikhab', 'kala', 'che', 'opejana', 'raka', 'bas', 'wrusta', 'koshish',
+  'ghurzawa', 'rawra', 'sadir', 'tolgay', 'badal', 'sabit', 'olika',
+];
 
 export class Parser {
   private tokens: Token[];
   private current: number = 0;
+  private loopDepth: number = 0; // Number of loops enclosing the current statement
+  private functionDepth: number = 0; // Number of functions enclosing the current statement
+  // Syntax errors found by parse(); when there are any, the returned program is only partial
+  public readonly diagnostics: Diagnostic[] = [];
 
   constructor(tokens: Token[]) {
-    this.tokens = tokens;
+    this.tokens = [...tokens]; // A copy, as splitUpdateOperator replaces tokens
   }
 
   private peek(): Token {
@@ -189,6 +308,11 @@ export class Parser {
     return this.peek().type === type;
   }
 
+  private checkNext(type: TokenType): boolean {
+    const next = this.tokens[this.current + 1];
+    return next !== undefined && next.type === type;
+  }
+
   private match(...types: TokenType[]): boolean {
     for (const type of types) {
       if (this.check(type)) {
@@ -209,62 +333,248 @@ export class Parser {
 
   private consume(type: TokenType, message: string): Token {
     if (this.check(type)) return this.advance();
-    throw new Error(`${message} at line ${this.peek().line}, column ${this.peek().column}`);
+    
+    const found = this.found(this.peek());
+    if (type === TokenType.IDENTIFIER) {
+      throw this.error(this.peek(), DiagnosticCode.ExpectedName, message, found);
+    }
+    if (type === TokenType.STRING) {
+      throw this.error(this.peek(), DiagnosticCode.ExpectedString, message, found);
+    }
+    throw this.error(this.peek(), DiagnosticCode.ExpectedToken, message, { expected: type, ...found });
   }
 
   private consumeValue(type: TokenType, value: string, message: string): Token {
     if (this.check(type, value)) return this.advance();
-    throw new Error(`${message} at line ${this.peek().line}, column ${this.peek().column}`);
+    throw this.error(this.peek(), DiagnosticCode.ExpectedToken, message, { expected: value, ...this.found(this.peek()) });
+  }
+
+  // Build a parse error located at a token, to throw
+  private error(token: Token, code: DiagnosticCode, message: string, params: DiagnosticParams = {}): DiagnosticError {
+    return new DiagnosticError(createDiagnostic('parse', code, message, params, token.line, token.column, token.value.length));
+  }
+
+  // Describe the token that was found instead of the expected one (foundType is 'EOF' at the end of the file)
+  private found(token: Token): DiagnosticParams {
+    return { found: token.value, foundType: token.type };
   }
 
-  // Main parsing method
+  // Main parsing method. A syntax error doesn't stop parsing: it is added to
+  // `diagnostics` and parsing carries on from the next statement.
   public parse(): Program {
-    try {
-      const program: Program = {
-        type: NodeType.Program,
-        body: [],
-        line: 1,
-        column: 1,
-      };
+    const program: Program = {
+      type: NodeType.Program,
+      body: [],
+      line: 1,
+      column: 1,
+    };
 
-      while (!this.isAtEnd()) {
-        program.body.push(this.declaration());
+    while (!this.isAtEnd()) {
+      const statement = this.recover(true, () => {
+        if (this.matchValue(TokenType.KEYWORD, 'sadir')) {
+          return this.exportDeclaration();
+        }
+        return this.declaration();
+      });
+      if (statement) {
+        program.body.push(statement);
       }
+    }
+
+    return program;
+  }
 
-      return program;
+  // Parse one statement. On a syntax error, record it and skip ahead to the next statement.
+  private recover(topLevel: boolean, parseStatement: () => Statement): Statement | null {
+    const start = this.current;
+    try {
+      return parseStatement();
     } catch (error) {
-      console.error('Parse error:', error);
-      throw error;
+      if (!(error instanceof DiagnosticError)) {
+        throw error;
+      }
+      
+      // An unclosed block fails once for every enclosing block, at the same place; report it once
+      const last = this.diagnostics[this.diagnostics.length - 1];
+      const position = error.diagnostic.span?.start;
+      if (!last || last.span?.start.line !== position?.line || last.span?.start.column !== position?.column) {
+        this.diagnostics.push(error.diagnostic);
+      }
+      
+      this.synchronize(start, topLevel);
+      return null;
+    }
+  }
+
+  // Skip the rest of a broken statement: stop at a ';', a new line or a statement keyword,
+  // or before the '}' that closes the enclosing block. Nested braces are skipped whole,
+  // counting from the start of the statement, so a keyword inside a broken map literal doesn't count.
+  private synchronize(start: number, topLevel: boolean): void {
+    let depth = 0;
+    for (const token of this.tokens.slice(start, this.current)) {
+      if (token.type === TokenType.PUNCTUATION && token.value === '{') {
+        depth++;
+      } else if (token.type === TokenType.PUNCTUATION && token.value === '}') {
+        depth = Math.max(depth - 1, 0);
+      }
+    }
+    
+    while (!this.isAtEnd()) {
+      const token = this.peek();
+      
+      if (depth === 0 && this.current > start) {
+        const previous = this.previous();
+        if (previous.type === TokenType.PUNCTUATION && previous.value === ';') return;
+        if (token.line > previous.line) return;
+        if (token.type === TokenType.KEYWORD && STATEMENT_KEYWORDS.includes(token.value)) return;
+      }
+      
+      if (token.type === TokenType.PUNCTUATION && token.value === '{') {
+        depth++;
+      } else if (token.type === TokenType.PUNCTUATION && token.value === '}') {
+        if (depth === 0 && !topLevel) return;
+        depth = Math.max(depth - 1, 0);
+      }
+      
+      this.advance();
     }
   }
 
   // Declarations
   private declaration(): Statement {
-    // Function declaration
-    if (this.matchValue(TokenType.KEYWORD, 'opejana')) {
+    // Exports are only allowed at the top level (handled in parse())
+    if (this.check(TokenType.KEYWORD, 'sadir')) {
+      throw this.error(this.peek(), DiagnosticCode.ExportNotTopLevel, '"sadir" can only be used at the top level of a file');
+    }
+    
+    // Function declaration (without a name, `opejana (...)` is a function expression)
+    if (this.check(TokenType.KEYWORD, 'opejana') && this.checkNext(TokenType.IDENTIFIER)) {
+      this.advance();
       return this.functionDeclaration();
     }
 
+    // Class declaration
+    if (this.matchValue(TokenType.KEYWORD, 'tolgay')) {
+      return this.classDeclaration();
+    }
+
+    // Variable and constant declarations
+    if (this.matchValue(TokenType.KEYWORD, 'badal') || this.matchValue(TokenType.KEYWORD, 'sabit')) {
+      return this.variableDeclaration();
+    }
+
     return this.statement();
   }
 
-  private functionDeclaration(): FunctionDeclaration {
+  private variableDeclaration(): VariableDeclaration {
     const token = this.previous();
-    const name = this.consume(TokenType.IDENTIFIER, 'Expected function name').value;
+    const constant = token.value === 'sabit';
+    const name = this.consume(TokenType.IDENTIFIER, `Expected variable name after "${token.value}"`).value;
     
-    this.consume(TokenType.PUNCTUATION, '(', 'Expected "(" after function name');
+    let value: Expression | null = null;
+    if (this.matchValue(TokenType.OPERATOR, '=')) {
+      value = this.expression();
+    } else if (constant) {
+      throw this.error(token, DiagnosticCode.ConstantNeedsValue, `Constant '${name}' needs a value`, { name });
+    }
     
-    const params: string[] = [];
-    if (!this.check(TokenType.PUNCTUATION, ')')) {
-      do {
-        params.push(this.consume(TokenType.IDENTIFIER, 'Expected parameter name').value);
-      } while (this.match(TokenType.PUNCTUATION) && this.previous().value === ',');
+    // Optional semicolon
+    if (this.matchValue(TokenType.PUNCTUATION, ';')) {
+      // Consume the semicolon
+    }
+    
+    return {
+      type: NodeType.VariableDeclaration,
+      name,
+      value,
+      constant,
+      line: token.line,
+      column: token.column,
+    };
+  }
+
+  private classDeclaration(): ClassDeclaration {
+    const token = this.previous();
+    const name = this.consume(TokenType.IDENTIFIER, 'Expected class name').value;
+    
+    this.consumeValue(TokenType.PUNCTUATION, '{', 'Expected "{" before class body');
+    
+    const methods: FunctionDeclaration[] = [];
+    while (!this.check(TokenType.PUNCTUATION, '}') && !this.isAtEnd()) {
+      this.consumeValue(TokenType.KEYWORD, 'opejana', 'Expected method declaration in class body');
+      methods.push(this.functionDeclaration());
+    }
+    
+    this.consumeValue(TokenType.PUNCTUATION, '}', 'Expected "}" after class body');
+    
+    return {
+      type: NodeType.ClassDeclaration,
+      name,
+      methods,
+      line: token.line,
+      column: token.column,
+    };
+  }
+
+  private exportDeclaration(): ExportDeclaration {
+    const token = this.previous();
+    
+    if (this.check(TokenType.KEYWORD, 'opejana') && this.checkNext(TokenType.IDENTIFIER)) {
+      this.advance();
+      const declaration = this.functionDeclaration();
+      return {
+        type: NodeType.ExportDeclaration,
+        name: declaration.name,
+        declaration,
+        line: token.line,
+        column: token.column,
+      };
     }
     
-    this.consume(TokenType.PUNCTUATION, ')', 'Expected ")" after parameters');
+    if (this.matchValue(TokenType.KEYWORD, 'tolgay')) {
+      const declaration = this.classDeclaration();
+      return {
+        type: NodeType.ExportDeclaration,
+        name: declaration.name,
+        declaration,
+        line: token.line,
+        column: token.column,
+      };
+    }
     
-    this.consume(TokenType.PUNCTUATION, '{', 'Expected "{" before function body');
-    const body = this.blockStatement();
+    if (this.matchValue(TokenType.KEYWORD, 'badal') || this.matchValue(TokenType.KEYWORD, 'sabit')) {
+      const declaration = this.variableDeclaration();
+      return {
+        type: NodeType.ExportDeclaration,
+        name: declaration.name,
+        declaration,
+        line: token.line,
+        column: token.column,
+      };
+    }
+    
+    const declaration = this.expressionStatement();
+    const expr = declaration.expression;
+    if (expr.type !== NodeType.AssignmentExpression || (expr as AssignmentExpression).left.type !== NodeType.Identifier) {
+      throw this.error(token, DiagnosticCode.InvalidExport, 'Expected a function or a variable assignment after "sadir"');
+    }
+    
+    return {
+      type: NodeType.ExportDeclaration,
+      name: ((expr as AssignmentExpression).left as Identifier).name,
+      declaration,
+      line: token.line,
+      column: token.column,
+    };
+  }
+
+  private functionDeclaration(): FunctionDeclaration {
+    const token = this.previous();
+    const name = this.consume(TokenType.IDENTIFIER, 'Expected function name').value;
+    
+    this.consumeValue(TokenType.PUNCTUATION, '(', 'Expected "(" after function name');
+    const params = this.functionParams();
+    const body = this.functionBody();
     
     return {
       type: NodeType.FunctionDeclaration,
@@ -276,6 +586,50 @@ export class Parser {
     };
   }
 
+  private functionExpression(): FunctionExpression {
+    const token = this.previous();
+    
+    this.consumeValue(TokenType.PUNCTUATION, '(', 'Expected "(" after "opejana"');
+    const params = this.functionParams();
+    const body = this.functionBody();
+    
+    return {
+      type: NodeType.FunctionExpression,
+      params,
+      body,
+      line: token.line,
+      column: token.column,
+    };
+  }
+
+  // Parse a parameter list, after the opening "("
+  private functionParams(): string[] {
+    const params: string[] = [];
+    if (!this.check(TokenType.PUNCTUATION, ')')) {
+      do {
+        params.push(this.consume(TokenType.IDENTIFIER, 'Expected parameter name').value);
+      } while (this.matchValue(TokenType.PUNCTUATION, ','));
+    }
+    
+    this.consumeValue(TokenType.PUNCTUATION, ')', 'Expected ")" after parameters');
+    return params;
+  }
+
+  private functionBody(): BlockStatement {
+    this.consumeValue(TokenType.PUNCTUATION, '{', 'Expected "{" before function body');
+    
+    // Loops outside the function don't make break/continue valid inside it
+    const enclosingLoopDepth = this.loopDepth;
+    this.loopDepth = 0;
+    this.functionDepth++;
+    try {
+      return this.blockStatement();
+    } finally {
+      this.loopDepth = enclosingLoopDepth;
+      this.functionDepth--;
+    }
+  }
+
   // Statements
   private statement(): Statement {
     // If statement
@@ -283,6 +637,11 @@ export class Parser {
       return this.ifStatement();
     }
     
+    // Match statement
+    if (this.matchValue(TokenType.KEYWORD, 'intikhab')) {
+      return this.matchStatement();
+    }
+    
     // While statement
     if (this.matchValue(TokenType.KEYWORD, 'kala')) {
       return this.whileStatement();
@@ -298,8 +657,31 @@ export class Parser {
       return this.returnStatement();
     }
     
+    // Import statement
+    if (this.matchValue(TokenType.KEYWORD, 'rawra')) {
+      return this.importStatement();
+    }
+    
+    // Try and throw statements
+    if (this.matchValue(TokenType.KEYWORD, 'koshish')) {
+      return this.tryStatement();
+    }
+    
+    if (this.matchValue(TokenType.KEYWORD, 'ghurzawa')) {
+      return this.throwStatement();
+    }
+    
+    // Break and continue statements
+    if (this.matchValue(TokenType.KEYWORD, 'bas')) {
+      return this.loopControlStatement(NodeType.BreakStatement);
+    }
+    
+    if (this.matchValue(TokenType.KEYWORD, 'wrusta')) {
+      return this.loopControlStatement(NodeType.ContinueStatement);
+    }
+    
     // Block statement
-    if (this.match(TokenType.PUNCTUATION) && this.previous().value === '{') {
+    if (this.matchValue(TokenType.PUNCTUATION, '{')) {
       return this.blockStatement();
     }
     
@@ -309,17 +691,21 @@ export class Parser {
   private ifStatement(): IfStatement {
     const token = this.previous();
     
-    this.consume(TokenType.PUNCTUATION, '(', 'Expected "(" after "ko"');
+    this.consumeValue(TokenType.PUNCTUATION, '(', 'Expected "(" after "ko"');
     const test = this.expression();
-    this.consume(TokenType.PUNCTUATION, ')', 'Expected ")" after if condition');
+    this.consumeValue(TokenType.PUNCTUATION, ')', 'Expected ")" after if condition');
     
-    this.consume(TokenType.PUNCTUATION, '{', 'Expected "{" before if body');
+    this.consumeValue(TokenType.PUNCTUATION, '{', 'Expected "{" before if body');
     const consequent = this.blockStatement();
     
-    let alternate: BlockStatement | null = null;
+    let alternate: BlockStatement | IfStatement | null = null;
     if (this.matchValue(TokenType.KEYWORD, 'geni')) {
-      this.consume(TokenType.PUNCTUATION, '{', 'Expected "{" before else body');
-      alternate = this.blockStatement();
+      if (this.matchValue(TokenType.KEYWORD, 'ko')) {
+        alternate = this.ifStatement();
+      } else {
+        this.consumeValue(TokenType.PUNCTUATION, '{', 'Expected "{" or "ko" after "geni"');
+        alternate = this.blockStatement();
+      }
     }
     
     return {
@@ -332,15 +718,63 @@ export class Parser {
     };
   }
 
+  private matchStatement(): MatchStatement {
+    const token = this.previous();
+    
+    this.consumeValue(TokenType.PUNCTUATION, '(', 'Expected "(" after "intikhab"');
+    const discriminant = this.expression();
+    this.consumeValue(TokenType.PUNCTUATION, ')', 'Expected ")" after match value');
+    this.consumeValue(TokenType.PUNCTUATION, '{', 'Expected "{" before match cases');
+    
+    const cases: MatchCase[] = [];
+    let defaultCase: BlockStatement | null = null;
+    
+    while (!this.check(TokenType.PUNCTUATION, '}') && !this.isAtEnd()) {
+      if (this.matchValue(TokenType.KEYWORD, 'geni')) {
+        if (defaultCase) {
+          throw this.error(this.previous(), DiagnosticCode.DuplicateDefaultCase, 'Only one "geni" case is allowed');
+        }
+        this.consumeValue(TokenType.PUNCTUATION, '{', 'Expected "{" after "geni"');
+        defaultCase = this.blockStatement();
+        continue;
+      }
+      
+      const caseToken = this.consumeValue(TokenType.KEYWORD, 'halat', 'Expected "halat" or "geni" in match');
+      const patterns: MatchPattern[] = [];
+      do {
+        const value = this.expression();
+        if (this.matchValue(TokenType.KEYWORD, 'tar')) {
+          patterns.push({ kind: 'range', from: value, to: this.expression() });
+        } else {
+          patterns.push({ kind: 'value', value });
+        }
+      } while (this.matchValue(TokenType.PUNCTUATION, ','));
+      
+      this.consumeValue(TokenType.PUNCTUATION, '{', 'Expected "{" before case body');
+      cases.push({ patterns, body: this.blockStatement(), line: caseToken.line });
+    }
+    
+    this.consumeValue(TokenType.PUNCTUATION, '}', 'Expected "}" after match cases');
+    
+    return {
+      type: NodeType.MatchStatement,
+      discriminant,
+      cases,
+      defaultCase,
+      line: token.line,
+      column: token.column,
+    };
+  }
+
   private whileStatement(): WhileStatement {
     const token = this.previous();
     
-    this.consume(TokenType.PUNCTUATION, '(', 'Expected "(" after "kala"');
+    this.consumeValue(TokenType.PUNCTUATION, '(', 'Expected "(" after "kala"');
     const test = this.expression();
-    this.consume(TokenType.PUNCTUATION, ')', 'Expected ")" after while condition');
+    this.consumeValue(TokenType.PUNCTUATION, ')', 'Expected ")" after while condition');
     
-    this.consume(TokenType.PUNCTUATION, '{', 'Expected "{" before while body');
-    const body = this.blockStatement();
+    this.consumeValue(TokenType.PUNCTUATION, '{', 'Expected "{" before while body');
+    const body = this.loopBody();
     
     return {
       type: NodeType.WhileStatement,
@@ -354,16 +788,16 @@ export class Parser {
   private forStatement(): ForStatement {
     const token = this.previous();
     
-    this.consume(TokenType.PUNCTUATION, '(', 'Expected "(" after "che"');
+    this.consumeValue(TokenType.PUNCTUATION, '(', 'Expected "(" after "che"');
     const variable = this.consume(TokenType.IDENTIFIER, 'Expected variable name in for loop').value;
     
     this.consumeValue(TokenType.KEYWORD, 'we', 'Expected "we" after variable name in for loop');
     
     const iterable = this.expression();
-    this.consume(TokenType.PUNCTUATION, ')', 'Expected ")" after for loop condition');
+    this.consumeValue(TokenType.PUNCTUATION, ')', 'Expected ")" after for loop condition');
     
-    this.consume(TokenType.PUNCTUATION, '{', 'Expected "{" before for loop body');
-    const body = this.blockStatement();
+    this.consumeValue(TokenType.PUNCTUATION, '{', 'Expected "{" before for loop body');
+    const body = this.loopBody();
     
     return {
       type: NodeType.ForStatement,
@@ -378,13 +812,17 @@ export class Parser {
   private returnStatement(): ReturnStatement {
     const token = this.previous();
     let argument: Expression | null = null;
+
+    if (this.functionDepth === 0) {
+      throw this.error(token, DiagnosticCode.ReturnOutsideFunction, `"${token.value}" can only be used inside a function`, { keyword: token.value });
+    }
     
     if (!this.check(TokenType.PUNCTUATION, ';') && !this.check(TokenType.PUNCTUATION, '}')) {
       argument = this.expression();
     }
     
     // Optional semicolon
-    if (this.match(TokenType.PUNCTUATION) && this.previous().value === ';') {
+    if (this.matchValue(TokenType.PUNCTUATION, ';')) {
       // Consume the semicolon
     }
     
@@ -396,15 +834,125 @@ export class Parser {
     };
   }
 
+  private importStatement(): ImportStatement {
+    const token = this.previous();
+    const source = this.consume(TokenType.STRING, 'Expected file name in quotes after "rawra"').value;
+    
+    let alias: string | null = null;
+    if (this.matchValue(TokenType.KEYWORD, 'lakah')) {
+      alias = this.consume(TokenType.IDENTIFIER, 'Expected a name after "lakah"').value;
+    }
+    
+    // Optional semicolon
+    if (this.matchValue(TokenType.PUNCTUATION, ';')) {
+      // Consume the semicolon
+    }
+    
+    return {
+      type: NodeType.ImportStatement,
+      source,
+      alias,
+      line: token.line,
+      column: token.column,
+    };
+  }
+
+  private tryStatement(): TryStatement {
+    const token = this.previous();
+    
+    this.consumeValue(TokenType.PUNCTUATION, '{', 'Expected "{" after "koshish"');
+    const block = this.blockStatement();
+    
+    let handler: CatchClause | null = null;
+    if (this.matchValue(TokenType.KEYWORD, 'niwal')) {
+      let param: string | null = null;
+      if (this.matchValue(TokenType.PUNCTUATION, '(')) {
+        param = this.consume(TokenType.IDENTIFIER, 'Expected error variable name after "niwal ("').value;
+        this.consumeValue(TokenType.PUNCTUATION, ')', 'Expected ")" after error variable name');
+      }
+      
+      this.consumeValue(TokenType.PUNCTUATION, '{', 'Expected "{" before catch body');
+      handler = { param, body: this.blockStatement() };
+    }
+    
+    let finalizer: BlockStatement | null = null;
+    if (this.matchValue(TokenType.KEYWORD, 'akhir')) {
+      this.consumeValue(TokenType.PUNCTUATION, '{', 'Expected "{" before finally body');
+      finalizer = this.blockStatement();
+    }
+    
+    if (!handler && !finalizer) {
+      throw this.error(this.peek(), DiagnosticCode.MissingCatchOrFinally, 'Expected "niwal" or "akhir" after "koshish" block');
+    }
+    
+    return {
+      type: NodeType.TryStatement,
+      block,
+      handler,
+      finalizer,
+      line: token.line,
+      column: token.column,
+    };
+  }
+
+  private throwStatement(): ThrowStatement {
+    const token = this.previous();
+    const argument = this.expression();
+    
+    // Optional semicolon
+    if (this.matchValue(TokenType.PUNCTUATION, ';')) {
+      // Consume the semicolon
+    }
+    
+    return {
+      type: NodeType.ThrowStatement,
+      argument,
+      line: token.line,
+      column: token.column,
+    };
+  }
+
+  private loopControlStatement(type: NodeType.BreakStatement | NodeType.ContinueStatement): BreakStatement | ContinueStatement {
+    const token = this.previous();
+    
+    if (this.loopDepth === 0) {
+      throw this.error(token, DiagnosticCode.LoopControlOutsideLoop, `"${token.value}" can only be used inside a loop`, { keyword: token.value });
+    }
+    
+    // Optional semicolon
+    if (this.matchValue(TokenType.PUNCTUATION, ';')) {
+      // Consume the semicolon
+    }
+    
+    return {
+      type,
+      line: token.line,
+      column: token.column,
+    };
+  }
+
+  // Parse a loop body, tracking that break/continue are allowed inside it
+  private loopBody(): BlockStatement {
+    this.loopDepth++;
+    try {
+      return this.blockStatement();
+    } finally {
+      this.loopDepth--;
+    }
+  }
+
   private blockStatement(): BlockStatement {
     const token = this.previous();
     const statements: Statement[] = [];
     
     while (!this.check(TokenType.PUNCTUATION, '}') && !this.isAtEnd()) {
-      statements.push(this.declaration());
+      const statement = this.recover(false, () => this.declaration());
+      if (statement) {
+        statements.push(statement);
+      }
     }
     
-    this.consume(TokenType.PUNCTUATION, '}', 'Expected "}" after block');
+    this.consumeValue(TokenType.PUNCTUATION, '}', 'Expected "}" after block');
     
     return {
       type: NodeType.BlockStatement,
@@ -419,7 +967,7 @@ export class Parser {
     const expr = this.expression();
     
     // Optional semicolon
-    if (this.match(TokenType.PUNCTUATION) && this.previous().value === ';') {
+    if (this.matchValue(TokenType.PUNCTUATION, ';')) {
       // Consume the semicolon
     }
     
@@ -437,28 +985,37 @@ export class Parser {
   }
 
   private assignment(): Expression {
-    const expr = this.equality();
+    const expr = this.logicalOr();
     
-    if (this.match(TokenType.OPERATOR) && this.previous().value === '=') {
+    if (this.matchOperator(['=', ...Object.keys(COMPOUND_ASSIGNMENT_OPERATORS)])) {
       const equals = this.previous();
       const value = this.assignment();
       
-      if (expr.type === NodeType.Identifier) {
+      if (expr.type === NodeType.Identifier || expr.type === NodeType.MemberExpression) {
         return {
           type: NodeType.AssignmentExpression,
-          left: expr as Identifier,
+          operator: equals.value,
+          left: expr as Identifier | MemberExpression,
           right: value,
           line: equals.line,
           column: equals.column,
-        };
+        } as AssignmentExpression;
       }
       
-      throw new Error(`Invalid assignment target at line ${equals.line}, column ${equals.column}`);
+      throw this.error(equals, DiagnosticCode.InvalidAssignmentTarget, 'Invalid assignment target');
     }
     
     return expr;
   }
 
+  private logicalOr(): Expression {
+    return this.parseBinaryExpression(this.logicalAnd.bind(this), ['||', 'ya']);
+  }
+
+  private logicalAnd(): Expression {
+    return this.parseBinaryExpression(this.equality.bind(this), ['&&', 'aw']);
+  }
+
   private equality(): Expression {
     return this.parseBinaryExpression(this.comparison.bind(this), ['==', '!=']);
   }
@@ -475,55 +1032,163 @@ export class Parser {
     return this.parseBinaryExpression(this.unary.bind(this), ['*', '/', '%', 'zarab', 'takseem', 'takseembaki']);
   }
 
+  // `5--3` and `--x` are two minus signs, as they were before `++`/`--` became operators: when the current
+  // `++`/`--` can't update a target, split it back into two one-character operators
+  private splitUpdateOperator(): void {
+    const token = this.peek();
+    const sign = token.value[0];
+    this.tokens.splice(this.current, 1, { ...token, value: sign }, { ...token, value: sign, column: token.column + 1 });
+  }
+
+  private matchOperator(operators: string[]): boolean {
+    if (this.check(TokenType.OPERATOR) && operators.includes(this.peek().value)) {
+      this.advance();
+      return true;
+    }
+    return false;
+  }
+
   private parseBinaryExpression(nextMethod: () => Expression, operators: string[]): Expression {
     let expr = nextMethod();
     
-    while (this.match(TokenType.OPERATOR) && operators.includes(this.previous().value)) {
-      const operator = this.previous().value;
+    while (this.matchOperator(operators)) {
+      const operator = this.previous();
       const right = nextMethod();
       
       expr = {
         type: NodeType.BinaryExpression,
-        operator,
+        operator: operator.value,
         left: expr,
         right,
-        line: this.previous().line,
-        column: this.previous().column,
-      };
+        line: operator.line,
+        column: operator.column,
+      } as BinaryExpression;
     }
     
     return expr;
   }
 
   private unary(): Expression {
-    if (this.match(TokenType.OPERATOR) && ['-', 'manfi'].includes(this.previous().value)) {
-      const operator = this.previous().value;
-      const right = this.unary();
+    if (this.check(TokenType.OPERATOR, '--')) {
+      this.splitUpdateOperator();
+    }
+    if (this.matchOperator(['!', 'na', '-', 'manfi'])) {
+      const operator = this.previous();
+      const argument = this.unary();
+      
+      return {
+        type: NodeType.UnaryExpression,
+        operator: operator.value,
+        argument,
+        line: operator.line,
+        column: operator.column,
+      } as UnaryExpression;
+    }
+    
+    return this.power();
+  }
+
+  // `a ** b ** c` groups as `a ** (b ** c)`, and `-2 ** 2` as `-(2 ** 2)`
+  private power(): Expression {
+    const base = this.postfix();
+    
+    if (this.matchOperator(['**'])) {
+      const operator = this.previous();
+      const exponent = this.unary();
       
       return {
         type: NodeType.BinaryExpression,
-        operator,
-        left: {
-          type: NodeType.NumericLiteral,
-          value: 0,
-          line: this.previous().line,
-          column: this.previous().column,
-        },
-        right,
-        line: this.previous().line,
-        column: this.previous().column,
-      };
+        operator: operator.value,
+        left: base,
+        right: exponent,
+        line: operator.line,
+        column: operator.column,
+      } as BinaryExpression;
+    }
+    
+    return base;
+  }
+
+  private postfix(): Expression {
+    const expr = this.call();
+    const isTarget = expr.type === NodeType.Identifier || expr.type === NodeType.MemberExpression;
+    
+    if (this.check(TokenType.OPERATOR, '++') || this.check(TokenType.OPERATOR, '--')) {
+      // `5--` with nothing after it was meant as an update; `5--3` and `x--3` are subtractions
+      const operator = this.peek();
+      const next = this.tokens[this.current + 1];
+      if (!isTarget && (next.type === TokenType.EOF || next.line !== operator.line || (next.type === TokenType.PUNCTUATION && [')', ']', '}', ','].includes(next.value)))) {
+        throw this.error(operator, DiagnosticCode.InvalidUpdateTarget, `Invalid target for "${operator.value}"`, { operator: operator.value });
+      }
+      if (!isTarget || (next.line === operator.line && this.startsOperand(next))) {
+        this.splitUpdateOperator();
+      }
+    }
+    if (this.matchOperator(['++', '--'])) {
+      const operator = this.previous();
+      
+      return {
+        type: NodeType.UpdateExpression,
+        operator: operator.value,
+        argument: expr as Identifier | MemberExpression,
+        line: operator.line,
+        column: operator.column,
+      } as UpdateExpression;
     }
     
-    return this.call();
+    return expr;
+  }
+
+  // Whether a token can begin an operand, so a `--` before it is a minus sign rather than an update
+  private startsOperand(token: Token): boolean {
+    switch (token.type) {
+      case TokenType.NUMBER:
+      case TokenType.STRING:
+      case TokenType.IDENTIFIER:
+        return true;
+      case TokenType.PUNCTUATION:
+        return ['(', '[', '`'].includes(token.value);
+      case TokenType.KEYWORD:
+        return ['rishtia', 'ghalat', 'da', 'opejana', 'olika', 'oghwara'].includes(token.value);
+      default:
+        return false;
+    }
   }
 
   private call(): Expression {
     let expr = this.primary();
     
     while (true) {
-      if (this.match(TokenType.PUNCTUATION) && this.previous().value === '(') {
+      if (this.matchValue(TokenType.PUNCTUATION, '(')) {
         expr = this.finishCall(expr);
+      } else if (this.matchValue(TokenType.PUNCTUATION, '[')) {
+        const token = this.previous();
+        const property = this.expression();
+        this.consumeValue(TokenType.PUNCTUATION, ']', 'Expected "]" after index');
+        expr = {
+          type: NodeType.MemberExpression,
+          object: expr,
+          property,
+          computed: true,
+          line: token.line,
+          column: token.column,
+        } as MemberExpression;
+      } else if (this.matchValue(TokenType.PUNCTUATION, '.')) {
+        const token = this.previous();
+        const name = this.consume(TokenType.IDENTIFIER, 'Expected property name after "."');
+        expr = {
+          type: NodeType.MemberExpression,
+          object: expr,
+          property: {
+            type: NodeType.Identifier,
+            name: name.value,
+            line: name.line,
+            column: name.column,
+          } as Identifier,
+          computed: false,
+          line: token.line,
+          column: token.column,
+        } as MemberExpression;
       } else {
         break;
       }
@@ -539,10 +1204,10 @@ export class Parser {
     if (!this.check(TokenType.PUNCTUATION, ')')) {
       do {
         args.push(this.expression());
-      } while (this.match(TokenType.PUNCTUATION) && this.previous().value === ',');
+      } while (this.matchValue(TokenType.PUNCTUATION, ','));
     }
     
-    this.consume(TokenType.PUNCTUATION, ')', 'Expected ")" after arguments');
+    this.consumeValue(TokenType.PUNCTUATION, ')', 'Expected ")" after arguments');
     
     return {
       type: NodeType.CallExpression,
@@ -563,7 +1228,7 @@ export class Parser {
         value: parseFloat(this.previous().value),
         line: this.previous().line,
         column: this.previous().column,
-      };
+      } as NumericLiteral;
     }
     
     // String literals
@@ -573,7 +1238,12 @@ export class Parser {
         value: this.previous().value,
         line: this.previous().line,
         column: this.previous().column,
-      };
+      } as StringLiteral;
+    }
+    
+    // Template strings
+    if (this.matchValue(TokenType.PUNCTUATION, '`')) {
+      return this.templateLiteral();
     }
     
     // Boolean literals
@@ -583,7 +1253,7 @@ export class Parser {
         value: true,
         line: this.previous().line,
         column: this.previous().column,
-      };
+      } as BooleanLiteral;
     }
     
     if (this.matchValue(TokenType.KEYWORD, 'ghalat')) {
@@ -592,32 +1262,55 @@ export class Parser {
         value: false,
         line: this.previous().line,
         column: this.previous().column,
-      };
+      } as BooleanLiteral;
     }
     
     // Array literals
-    if (this.match(TokenType.PUNCTUATION) && this.previous().value === '[') {
+    if (this.matchValue(TokenType.PUNCTUATION, '[')) {
       return this.arrayLiteral();
     }
     
+    // The current instance inside a method
+    if (this.matchValue(TokenType.KEYWORD, 'da')) {
+      return {
+        type: NodeType.ThisExpression,
+        line: this.previous().line,
+        column: this.previous().column,
+      } as ThisExpression;
+    }
+    
+    // Function expressions
+    if (this.matchValue(TokenType.KEYWORD, 'opejana')) {
+      return this.functionExpression();
+    }
+    
+    // Map literals (a "{" at the start of a statement is always a block)
+    if (this.matchValue(TokenType.PUNCTUATION, '{')) {
+      return this.mapLiteral();
+    }
+    
     // Grouping expressions
-    if (this.match(TokenType.PUNCTUATION) && this.previous().value === '(') {
+    if (this.matchValue(TokenType.PUNCTUATION, '(')) {
       const expr = this.expression();
-      this.consume(TokenType.PUNCTUATION, ')', 'Expected ")" after expression');
+      this.consumeValue(TokenType.PUNCTUATION, ')', 'Expected ")" after expression');
       return expr;
     }
     
-    // Identifiers
-    if (this.match(TokenType.IDENTIFIER)) {
+    // Identifiers (the print/input keywords name built-in functions)
+    if (
+      this.match(TokenType.IDENTIFIER) ||
+      this.matchValue(TokenType.KEYWORD, 'olika') ||
+      this.matchValue(TokenType.KEYWORD, 'oghwara')
+    ) {
       return {
         type: NodeType.Identifier,
         name: this.previous().value,
         line: this.previous().line,
         column: this.previous().column,
-      };
+      } as Identifier;
     }
     
-    throw new Error(`Unexpected token '${this.peek().value}' at line ${this.peek().line}, column ${this.peek().column}`);
+    throw this.error(this.peek(), DiagnosticCode.UnexpectedToken, `Unexpected token '${this.peek().value}'`, this.found(this.peek()));
   }
 
   private arrayLiteral(): ArrayLiteral {
@@ -627,10 +1320,10 @@ export class Parser {
     if (!this.check(TokenType.PUNCTUATION, ']')) {
       do {
         elements.push(this.expression());
-      } while (this.match(TokenType.PUNCTUATION) && this.previous().value === ',');
+      } while (this.matchValue(TokenType.PUNCTUATION, ','));
     }
     
-    this.consume(TokenType.PUNCTUATION, ']', 'Expected "]" after array elements');
+    this.consumeValue(TokenType.PUNCTUATION, ']', 'Expected "]" after array elements');
     
     return {
       type: NodeType.ArrayLiteral,
@@ -639,4 +1332,57 @@ export class Parser {
       column: token.column,
     };
   }
+
+  private templateLiteral(): TemplateLiteral {
+    const token = this.previous();
+    const quasis: string[] = [''];
+    const expressions: Expression[] = [];
+    
+    while (!this.matchValue(TokenType.PUNCTUATION, '`')) {
+      if (this.match(TokenType.TEMPLATE)) {
+        quasis[quasis.length - 1] += this.previous().value;
+      } else {
+        this.consumeValue(TokenType.PUNCTUATION, '${', 'Expected "${" or closing "`" in template string');
+        expressions.push(this.expression());
+        this.consumeValue(TokenType.PUNCTUATION, '}', 'Expected "}" after template expression');
+        quasis.push('');
+      }
+    }
+    
+    return {
+      type: NodeType.TemplateLiteral,
+      quasis,
+      expressions,
+      line: token.line,
+      column: token.column,
+    };
+  }
+
+  private mapLiteral(): MapLiteral {
+    const token = this.previous();
+    const entries: MapEntry[] = [];
+    
+    if (!this.check(TokenType.PUNCTUATION, '}')) {
+      do {
+        let key: string;
+        if (this.match(TokenType.STRING, TokenType.IDENTIFIER)) {
+          key = this.previous().value;
+        } else {
+          throw this.error(this.peek(), DiagnosticCode.ExpectedMapKey, 'Expected string key in map literal', this.found(this.peek()));
+        }
+        
+        this.consumeValue(TokenType.PUNCTUATION, ':', 'Expected ":" after map key');
+        entries.push({ key, value: this.expression() });
+      } while (this.matchValue(TokenType.PUNCTUATION, ','));
+    }
+    
+    this.consumeValue(TokenType.PUNCTUATION, '}', 'Expected "}" after map entries');
+    
+    return {
+      type: NodeType.MapLiteral,
+      entries,
+      line: token.line,
+      column: token.column,
+    };
+  }
 }
@@ -0,0 +1,22 @@
+/**
+ * Messages between the playground and the interpreter worker
+ * The page sends `run` and `input`; the worker answers with output, input requests and the result
+ */
+
+import type { Diagnostic } from './interpreter/diagnostics';
+import type { InterpreterOptions } from './interpreter/interpreter';
+
+// The options that can be sent to the worker (callbacks and module resolvers can't be copied to it)
+export type WorkerRunOptions = Pick<InterpreterOptions, 'numerals' | 'seed' | 'maxSteps' | 'maxCallDepth' | 'timeout'>;
+
+// Page -> worker
+export type WorkerRequest =
+  | { type: 'run'; code: string; options: WorkerRunOptions }
+  | { type: 'input'; value: string }; // The answer to the last `input` request
+
+// Worker -> page
+export type WorkerResponse =
+  | { type: 'output'; text: string } // One printed line, ending with a newline; sent as soon as it is printed
+  | { type: 'input'; prompt: string } // The program is waiting for oghwara
+  | { type: 'done'; diagnostics: Diagnostic[] } // The program finished; its output was already sent
+  | { type: 'error'; message: string }; // The worker itself failed